@@ -1,16 +1,33 @@
-import { describe, expect, it, suite, beforeAll, vi } from 'vitest';
+import { describe, expect, it, suite, beforeAll, afterEach, vi } from 'vitest';
 import { Window } from 'happy-dom';
 import {
     parseHTMLString,
+    parseHTMLFragment,
     UltraComponent,
     UltraActivity,
     ultraState,
+    ultraCompState,
     type UltraLightElement,
     UltraRouter,
     UltraLink,
     ultraPortal,
     UltraFragment,
-    ultraScope
+    ultraScope,
+    ultraPrefetch,
+    ultraNavigate,
+    ultraQueryParams,
+    ultraMemoryHistory,
+    ultraRoute,
+    ultraQueryState,
+    ultraBlocker,
+    UltraFor,
+    UltraShow,
+    UltraSwitch,
+    ultraHtml,
+    ultraEscape,
+    ultraTrusted,
+    ultraSafeHtml,
+    ultraSafeMode
 } from '../ultra-light';
 
 const time_out = 1 * 1000;
@@ -121,6 +138,66 @@ describe('Components', () => {
             expect(($circle as Element)?.tagName.toLowerCase()).toBe('circle');
         });
 
+        it('should keep every top-level node, text included, with parseHTMLFragment', () => {
+            const fragment = parseHTMLFragment(
+                'Hello <b>dear</b> <i>world</i>!',
+                document as unknown as Document
+            );
+            expect(fragment.childNodes.length).toBe(5);
+            expect(fragment.firstChild?.nodeType).toBe(3);
+            expect(fragment.textContent).toBe('Hello dear world!');
+        });
+
+        it('should parse SVG siblings with parseHTMLFragment', () => {
+            const fragment = parseHTMLFragment(
+                '<circle r="1"/><rect width="2"/>',
+                document as unknown as Document
+            );
+            expect(Array.from(fragment.children).map(child => child.namespaceURI))
+                .toEqual(['http://www.w3.org/2000/svg', 'http://www.w3.org/2000/svg']);
+        });
+
+        it('should parse ambiguous tags as HTML by default', () => {
+            const $a = parseHTMLString('<a href="/home">Home</a>', document as unknown as Document);
+            const $title = parseHTMLString('<title>Page</title>', document as unknown as Document);
+            expect($a).toBeInstanceOf(window.HTMLAnchorElement);
+            expect(($title as Element).namespaceURI).toBe('http://www.w3.org/1999/xhtml');
+        });
+
+        it('should parse an anchor wrapping an inline SVG icon as HTML', () => {
+            const $a = parseHTMLString(
+                '<a href="/home"><svg viewBox="0 0 10 10"><circle r="4"/></svg><span>Home</span></a>',
+                document as unknown as Document
+            );
+            expect($a).toBeInstanceOf(window.HTMLAnchorElement);
+            expect(($a as Element).querySelector('svg')?.namespaceURI).toBe('http://www.w3.org/2000/svg');
+        });
+
+        it('should parse ambiguous tags as SVG with the namespace option', () => {
+            const $a = parseHTMLString('<a href="#dot"><circle r="4"/></a>', { document: document as unknown as Document, namespace: 'svg' });
+            expect($a).toBeInstanceOf(window.SVGElement);
+            expect(($a as Element).firstElementChild?.namespaceURI).toBe('http://www.w3.org/2000/svg');
+        });
+
+        it('should detect camel-cased SVG tags', () => {
+            const $gradient = parseHTMLString('<linearGradient id="fade"></linearGradient>', document as unknown as Document);
+            expect($gradient).toBeInstanceOf(window.SVGElement);
+        });
+
+        it('should use the namespace option', () => {
+            const $title = parseHTMLString('<title>Tooltip</title>', { document: document as unknown as Document, namespace: 'svg' });
+            expect(($title as Element).namespaceURI).toBe('http://www.w3.org/2000/svg');
+            const $circle = parseHTMLFragment('<circle/>', { document: document as unknown as Document, namespace: 'html' });
+            expect(($circle.firstChild as Element).namespaceURI).toBe('http://www.w3.org/1999/xhtml');
+        });
+
+        it('should parse MathML markup inside a <math> element', () => {
+            const createElementNS = vi.spyOn(document, 'createElementNS');
+            parseHTMLString('<mfrac><mi>a</mi><mi>b</mi></mfrac>', document as unknown as Document);
+            expect(createElementNS).toHaveBeenCalledWith('http://www.w3.org/1998/Math/MathML', 'math');
+            createElementNS.mockRestore();
+        });
+
         it('should return a valid HTMLElement from an HTMLElement node', () => {
             const $result = parseHTMLString(
                 document.createElement('div') as unknown as HTMLElement,
@@ -132,6 +209,97 @@ describe('Components', () => {
     }, time_out);
 
     // [agent-added]
+    suite('Safe mode', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, { window: happyWindow, document: happyWindow.document });
+        });
+
+        afterEach(() => {
+            ultraSafeMode(false, { trustedTypes: false });
+            delete (happyWindow as unknown as { trustedTypes?: unknown }).trustedTypes;
+        });
+
+        it('should escape markup characters', () => {
+            expect(ultraEscape(`<a href="x" title='y'>&</a>`))
+                .toBe('&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;');
+            expect(ultraEscape(null)).toBe('');
+            expect(ultraEscape(42)).toBe('42');
+        });
+
+        it('should escape interpolated values in ultraSafeHtml and keep trusted ones', () => {
+            const name = '<img src=x onerror=alert(1)>';
+            const items = ['<b>', 'ok'].map(item => ultraSafeHtml`<li>${item}</li>`);
+            const markup = ultraSafeHtml`<div title="${name}">${name}<ul>${items}</ul>${ultraTrusted('<hr>')}</div>`;
+            const $div = parseHTMLString(markup) as HTMLElement;
+            expect($div.querySelector('img')).toBeNull();
+            expect($div.getAttribute('title')).toBe(name);
+            expect($div.firstChild?.textContent).toBe(name);
+            expect(Array.from($div.querySelectorAll('li')).map(li => li.textContent)).toEqual(['<b>', 'ok']);
+            expect($div.querySelector('hr')).not.toBeNull();
+        });
+
+        it('should refuse plain strings in safe mode', () => {
+            ultraSafeMode();
+            expect(() => parseHTMLString('<div>hi</div>')).toThrowError(/safe mode/);
+            expect(() => UltraComponent({ component: '<div></div>' })).toThrowError(/safe mode/);
+            const $el = UltraComponent({
+                component: ultraTrusted('<div></div>'),
+                children: [ultraSafeHtml`<span>${'<i>'}</span>`]
+            });
+            expect($el.innerHTML).toBe('<span>&lt;i&gt;</span>');
+        });
+
+        it('should let the built-in components create their default containers', () => {
+            ultraSafeMode();
+            const [items] = ultraState([{ id: 1, name: '<b>' }]);
+            const $list = UltraFor({
+                each: items,
+                key: item => item.id,
+                render: item => ultraSafeHtml`<p>${item().name}</p>`
+            });
+            const $show = UltraShow({ when: () => true, render: () => ultraTrusted('<p>shown</p>') });
+            const $switch = UltraSwitch({ value: () => 'a', cases: { a: () => ultraTrusted('<p>a</p>') } });
+            expect($list.innerHTML).toBe('<p>&lt;b&gt;</p>');
+            expect($show.textContent).toBe('shown');
+            expect($switch.textContent).toBe('a');
+        });
+
+        it('should accept trusted markup from route components and error content', () => {
+            ultraSafeMode();
+            const history = ultraMemoryHistory(['/user']);
+            const router = UltraRouter(
+                { history, error: () => ultraTrusted('<p>Failed</p>') },
+                { path: '/user', component: () => ultraSafeHtml`<p>${'<b>'}</p>` },
+                { path: '/broken', component: () => { throw new Error('boom'); } }
+            );
+            expect(router.querySelector('p')?.textContent).toBe('<b>');
+            history.push('/broken');
+            expect(router.querySelector('p')?.textContent).toBe('Failed');
+            router._cleanup?.();
+        });
+
+        it('should not trust look-alike objects', () => {
+            ultraSafeMode();
+            const fake = { html: '<div></div>', toString: () => '<div></div>' };
+            expect(parseHTMLString(fake as never)).toBe(fake);
+        });
+
+        it('should parse markup through the Trusted Types policy', () => {
+            const createHTML = vi.fn((html: string) => html);
+            const createPolicy = vi.fn((_name: string, rules: { createHTML: (html: string) => string }) => ({
+                createHTML: (html: string) => createHTML(rules.createHTML(html))
+            }));
+            Object.assign(happyWindow, { trustedTypes: { createPolicy } });
+            ultraSafeMode(true, { trustedTypes: 'ultra-light' });
+            expect(createPolicy).toHaveBeenCalledWith('ultra-light', expect.anything());
+            const $p = parseHTMLString(ultraTrusted('<p>trusted</p>')) as HTMLElement;
+            expect($p.textContent).toBe('trusted');
+            expect(createHTML).toHaveBeenCalledWith('<p>trusted</p>');
+        });
+
+    }, time_out);
+
     suite('UltraFragment', () => {
 
         beforeAll(() => {
@@ -143,6 +311,11 @@ describe('Components', () => {
             expect(result).toBeInstanceOf(window.DocumentFragment);
         });
 
+        it('should keep every root of a multi-root string child', () => {
+            const result = UltraFragment('<dt>Term</dt><dd>Definition</dd>', '<hr>');
+            expect(Array.from(result.children).map(child => child.tagName)).toEqual(['DT', 'DD', 'HR']);
+        });
+
         it('should return an empty fragment when called with no children', () => {
             const result = UltraFragment();
             expect(result.childNodes.length).toBe(0);
@@ -378,6 +551,185 @@ describe('Components', () => {
             expect(cleanupCalled).toBe(true);
         });
 
+        it('should parse the markup children of an SVG node as SVG', () => {
+            const $svg = UltraComponent({
+                component: '<svg viewBox="0 0 10 10"></svg>',
+                children: ['<title>Logo</title>', '<a href="#"><text>Go</text></a>']
+            });
+            expect(Array.from($svg.children).map(child => child.namespaceURI))
+                .toEqual(['http://www.w3.org/2000/svg', 'http://www.w3.org/2000/svg']);
+        });
+
+    }, time_out);
+
+    suite('UltraComponent: reactive bindings', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, { window: happyWindow, document: happyWindow.document });
+        });
+
+        it('should keep attributes in sync with getters', () => {
+            const [busy, setBusy] = ultraState(false);
+            const [label, setLabel] = ultraState('Save');
+            const $el = UltraComponent({
+                component: '<button></button>',
+                attributes: { disabled: busy, 'aria-label': () => `${label()} changes` }
+            });
+            expect($el.hasAttribute('disabled')).toBe(false);
+            expect($el.getAttribute('aria-label')).toBe('Save changes');
+            setBusy(true);
+            setLabel('Discard');
+            expect($el.getAttribute('disabled')).toBe('');
+            expect($el.getAttribute('aria-label')).toBe('Discard changes');
+        });
+
+        it('should toggle reactive class names and keep the static ones', () => {
+            const [active, setActive] = ultraState(false);
+            const $el = UltraComponent({
+                component: '<div></div>',
+                className: ['tab', () => active() ? 'on selected' : 'off']
+            });
+            expect(Array.from($el.classList)).toEqual(['tab', 'off']);
+            setActive(true);
+            expect(Array.from($el.classList)).toEqual(['tab', 'on', 'selected']);
+            setActive(false);
+            expect(Array.from($el.classList)).toEqual(['tab', 'off']);
+        });
+
+        it('should update styles from getters', () => {
+            const [color, setColor] = ultraState('red');
+            const $el = UltraComponent({ component: '<div></div>', styles: { color } });
+            expect($el.style.color).toBe('red');
+            setColor('blue');
+            expect($el.style.color).toBe('blue');
+        });
+
+        it('should render and update the text prop without touching the children', () => {
+            const [count, setCount] = ultraState(1);
+            const $el = UltraComponent({
+                component: '<p></p>',
+                text: () => `Count: ${count()}`,
+                children: ['<span>!</span>']
+            });
+            expect($el.textContent).toBe('Count: 1!');
+            const span = $el.querySelector('span');
+            setCount(2);
+            expect($el.textContent).toBe('Count: 2!');
+            expect($el.querySelector('span')).toBe(span);
+        });
+
+        it('should accept fields with get and subscribe', () => {
+            const state = ultraCompState({ title: 'Draft' });
+            const $el = UltraComponent({ component: '<h1></h1>', text: state.title, attributes: { title: state.title } });
+            state.title.set('Published');
+            expect($el.textContent).toBe('Published');
+            expect($el.getAttribute('title')).toBe('Published');
+        });
+
+        it('should stop updating after _cleanup', () => {
+            const [label, setLabel] = ultraState('a');
+            const getter = vi.fn(() => label());
+            const $el = UltraComponent({ component: '<p></p>', text: getter, className: [getter] });
+            $el._cleanup?.();
+            setLabel('b');
+            expect(getter).toHaveBeenCalledTimes(2);
+            expect($el.textContent).toBe('a');
+        });
+
+        it('should stop updating when the enclosing scope is disposed', () => {
+            const [label, setLabel] = ultraState('a');
+            const [$el, dispose] = ultraScope(() => UltraComponent({ component: '<p></p>', text: label }));
+            dispose();
+            setLabel('b');
+            expect($el.textContent).toBe('a');
+        });
+
+    }, time_out);
+
+    suite('ultraHtml', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, { window: happyWindow, document: happyWindow.document });
+        });
+
+        it('should render interpolated values as text, not markup', () => {
+            const name = '<img src=x>';
+            const $el = ultraHtml`<p class="greeting">Hello, ${name}!</p>` as UltraLightElement;
+            expect($el.tagName).toBe('P');
+            expect($el.textContent).toBe('Hello, <img src=x>!');
+            expect($el.querySelector('img')).toBeNull();
+        });
+
+        it('should return a fragment when there are several roots', () => {
+            const result = ultraHtml`<li>${1}</li><li>${2}</li>`;
+            expect(result.nodeType).toBe(11);
+            expect(Array.from(result.childNodes).map(node => node.textContent)).toEqual(['1', '2']);
+        });
+
+        it('should insert nodes, arrays and skip empty values', () => {
+            const items = ['a', 'b'].map(item => ultraHtml`<li>${item}</li>`);
+            const $el = ultraHtml`<ul>${items}${null}${false}${ultraHtml`<li>c</li>`}</ul>` as UltraLightElement;
+            expect($el.querySelectorAll('li').length).toBe(3);
+            expect($el.textContent).toBe('abc');
+        });
+
+        it('should bind event handlers and remove them on _cleanup', () => {
+            const onClick = vi.fn();
+            const $el = ultraHtml`<button @click=${onClick}>Go</button>` as UltraLightElement;
+            expect($el.hasAttribute('@click')).toBe(false);
+            $el.click();
+            $el._cleanup?.();
+            $el.click();
+            expect(onClick).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not end a tag at a > inside a quoted attribute value', () => {
+            const $el = ultraHtml`<div title="a>b" class=${'box'}>${'text'}</div>` as UltraLightElement;
+            expect($el.getAttribute('title')).toBe('a>b');
+            expect($el.getAttribute('class')).toBe('box');
+            expect($el.textContent).toBe('text');
+        });
+
+        it('should keep attributes and content in sync with getters', () => {
+            const [count, setCount] = ultraState(1);
+            const [busy, setBusy] = ultraState(false);
+            const $el = ultraHtml`<button class="counter c-${count}" disabled=${busy}>Count: ${count}</button>` as UltraLightElement;
+            expect($el.className).toBe('counter c-1');
+            expect($el.hasAttribute('disabled')).toBe(false);
+            expect($el.textContent).toBe('Count: 1');
+            setCount(2);
+            setBusy(true);
+            expect($el.className).toBe('counter c-2');
+            expect($el.getAttribute('disabled')).toBe('');
+            expect($el.textContent).toBe('Count: 2');
+            $el._cleanup?.();
+            setCount(3);
+            expect($el.textContent).toBe('Count: 2');
+        });
+
+        it('should clean up the nodes rendered by a reactive hole when they are replaced', () => {
+            const [show, setShow] = ultraState(true);
+            const cleanup = vi.fn();
+            const $el = ultraHtml`<div>${() => {
+                if (!show()) return 'off';
+                const $span = ultraHtml`<span>on</span>`;
+                $span._cleanup = cleanup;
+                return $span;
+            }}</div>` as UltraLightElement;
+            expect($el.textContent).toBe('on');
+            setShow(false);
+            expect($el.textContent).toBe('off');
+            expect(cleanup).toHaveBeenCalledTimes(1);
+        });
+
+        it('should parse each template once', () => {
+            const render = (label: string) => ultraHtml`<em>${label}</em>` as UltraLightElement;
+            const first = render('one');
+            const second = render('two');
+            expect(first).not.toBe(second);
+            expect([first.textContent, second.textContent]).toEqual(['one', 'two']);
+        });
+
     }, time_out);
 
     suite('UltraActivity', () => {
@@ -701,6 +1053,349 @@ describe('Components', () => {
 
     }, time_out);
 
+    suite('UltraFor', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, { window: happyWindow, document: happyWindow.document });
+        });
+
+        interface Todo { id: number; title: string }
+
+        const todo = (id: number, title = `Todo ${id}`): Todo => ({ id, title });
+
+        const texts = (list: HTMLElement): string[] =>
+            Array.from(list.children).map(child => child.textContent ?? '');
+
+        it('should render an item per element of a static array', () => {
+            const list = UltraFor({
+                each: [todo(1), todo(2)],
+                key: item => item.id,
+                render: item => `<li>${item().title}</li>`,
+                component: '<ul></ul>'
+            });
+            expect(list.tagName).toBe('UL');
+            expect(texts(list)).toEqual(['Todo 1', 'Todo 2']);
+        });
+
+        it('should insert and remove items when the state changes', () => {
+            const [todos, setTodos] = ultraState([todo(1), todo(2)]);
+            const list = UltraFor({ each: todos, key: item => item.id, render: item => `<p>${item().title}</p>` });
+            setTodos([todo(1), todo(3), todo(2)].map(t => todos().find(o => o.id === t.id) ?? t));
+            expect(texts(list)).toEqual(['Todo 1', 'Todo 3', 'Todo 2']);
+            setTodos(todos().filter(t => t.id !== 1));
+            expect(texts(list)).toEqual(['Todo 3', 'Todo 2']);
+        });
+
+        it('should follow a field with get and subscribe', () => {
+            const [todos, setTodos, subscribe] = ultraState([todo(1)]);
+            const list = UltraFor({ each: { get: todos, subscribe }, key: item => item.id, render: item => `<p>${item().title}</p>` });
+            setTodos([...todos(), todo(2)]);
+            expect(texts(list)).toEqual(['Todo 1', 'Todo 2']);
+            list._cleanup?.();
+            setTodos([todo(3)]);
+            expect(list.children).toHaveLength(0);
+        });
+
+        it('should render and move every root of multi-root items', () => {
+            const [todos, setTodos] = ultraState([todo(1), todo(2)]);
+            const list = UltraFor({
+                each: todos,
+                key: item => item.id,
+                render: item => `<dt>${item().id}</dt><dd>${item().title}</dd>`,
+                component: '<dl></dl>'
+            });
+            expect(texts(list)).toEqual(['1', 'Todo 1', '2', 'Todo 2']);
+            setTodos([todos()[1]!, todos()[0]!]);
+            expect(texts(list)).toEqual(['2', 'Todo 2', '1', 'Todo 1']);
+        });
+
+        it('should keep the nodes of existing keys when reordering', () => {
+            const [todos, setTodos] = ultraState([todo(1), todo(2), todo(3)]);
+            const list = UltraFor({ each: todos, key: item => item.id, render: item => `<p>${item().title}</p>` });
+            const [first, second, third] = Array.from(list.children);
+            const insertSpy = vi.spyOn(list, 'insertBefore');
+            setTodos([todos()[1]!, todos()[2]!, todos()[0]!]);
+            expect(Array.from(list.children)).toEqual([second, third, first]);
+            expect(insertSpy).toHaveBeenCalledTimes(1);
+            insertSpy.mockRestore();
+        });
+
+        it('should reverse the list', () => {
+            const [todos, setTodos] = ultraState([1, 2, 3, 4, 5].map(id => todo(id)));
+            const list = UltraFor({ each: todos, key: item => item.id, render: item => `<p>${item().title}</p>` });
+            const nodes = Array.from(list.children);
+            setTodos([...todos()].reverse());
+            expect(Array.from(list.children)).toEqual([...nodes].reverse());
+        });
+
+        it('should update an item in place when its key holds a new value', () => {
+            const [todos, setTodos] = ultraState([todo(1), todo(2)]);
+            const list = UltraFor({
+                each: todos,
+                key: item => item.id,
+                render: item => UltraComponent({ component: '<p></p>', text: () => item().title })
+            });
+            const [first, second] = Array.from(list.children);
+            setTodos([todo(1, 'Renamed'), todos()[1]!]);
+            expect(texts(list)).toEqual(['Renamed', 'Todo 2']);
+            expect(Array.from(list.children)).toEqual([first, second]);
+        });
+
+        it('should keep the nodes of a refetched list with new objects of the same keys', () => {
+            const [todos, setTodos] = ultraState([todo(1), todo(2)]);
+            const render = vi.fn((item: () => Todo) =>
+                UltraComponent({ component: '<input>', attributes: { value: () => item().title } }));
+            const list = UltraFor({ each: todos, key: item => item.id, render });
+            const nodes = Array.from(list.children);
+            setTodos([todo(2, 'Fetched 2'), todo(1, 'Fetched 1')]);
+            expect(render).toHaveBeenCalledTimes(2);
+            expect(Array.from(list.children)).toEqual([nodes[1], nodes[0]]);
+            expect(list.children[0]!.getAttribute('value')).toBe('Fetched 2');
+        });
+
+        it('should run _cleanup and dispose the scope of removed items', () => {
+            const [todos, setTodos] = ultraState([todo(1), todo(2)]);
+            const [count, setCount, subscribeCount] = ultraState(0);
+            const listeners = new Map<number, () => void>();
+            const cleanup = vi.fn();
+            UltraFor({
+                each: todos,
+                key: item => item.id,
+                render: item => {
+                    const listener = vi.fn();
+                    listeners.set(item().id, listener);
+                    subscribeCount(listener);
+                    return UltraComponent({ component: `<p>${item().title}</p>`, cleanup: [cleanup] });
+                }
+            });
+            setTodos([todos()[1]!]);
+            expect(cleanup).toHaveBeenCalledTimes(1);
+            setCount(count() + 1);
+            expect(listeners.get(1)).not.toHaveBeenCalled();
+            expect(listeners.get(2)).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not re-run the list when an item reads another state', () => {
+            const [label, setLabel] = ultraState('a');
+            const each = vi.fn(() => [todo(1)]);
+            UltraFor({ each, key: item => item.id, render: item => `<p>${item().title} ${label()}</p>` });
+            setLabel('b');
+            expect(each).toHaveBeenCalledTimes(1);
+        });
+
+        it('should pass the current index to the items', () => {
+            const [todos, setTodos] = ultraState([todo(1), todo(2)]);
+            const indexes = new Map<number, () => number>();
+            UltraFor({
+                each: todos,
+                key: item => item.id,
+                render: (item, index) => {
+                    indexes.set(item().id, index);
+                    return `<p>${item().title}</p>`;
+                }
+            });
+            setTodos([todos()[1]!, todos()[0]!]);
+            expect(indexes.get(1)!()).toBe(1);
+            expect(indexes.get(2)!()).toBe(0);
+        });
+
+        it('should render the fallback while the list is empty', () => {
+            const [todos, setTodos] = ultraState<Todo[]>([]);
+            const list = UltraFor({
+                each: todos,
+                key: item => item.id,
+                render: item => `<p>${item().title}</p>`,
+                fallback: () => '<em>Nothing to do</em>'
+            });
+            expect(texts(list)).toEqual(['Nothing to do']);
+            setTodos([todo(1)]);
+            expect(texts(list)).toEqual(['Todo 1']);
+            setTodos([]);
+            expect(texts(list)).toEqual(['Nothing to do']);
+        });
+
+        it('should warn about duplicate keys and render the first item only', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const list = UltraFor({
+                each: [todo(1), todo(1, 'Duplicate')],
+                key: item => item.id,
+                render: item => `<p>${item().title}</p>`
+            });
+            expect(texts(list)).toEqual(['Todo 1']);
+            expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('duplicate key'));
+            warnSpy.mockRestore();
+        });
+
+        it('should stop updating and clean up every item on _cleanup', () => {
+            const [todos, setTodos] = ultraState([todo(1), todo(2)]);
+            const cleanup = vi.fn();
+            const list = UltraFor({
+                each: todos,
+                key: item => item.id,
+                render: item => UltraComponent({ component: `<p>${item().title}</p>`, cleanup: [cleanup] })
+            });
+            list._cleanup?.();
+            expect(cleanup).toHaveBeenCalledTimes(2);
+            setTodos([todo(3)]);
+            expect(list.children.length).toBe(0);
+        });
+
+    }, time_out);
+
+    suite('UltraShow', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, { window: happyWindow, document: happyWindow.document });
+        });
+
+        it('should mount the content only while the condition is true', () => {
+            const [open, setOpen] = ultraState(false);
+            const render = vi.fn(() => '<p>Panel</p>');
+            const $el = UltraShow({ when: open, render, fallback: () => '<em>Closed</em>' });
+            expect($el.textContent).toBe('Closed');
+            expect(render).not.toHaveBeenCalled();
+            setOpen(true);
+            expect($el.textContent).toBe('Panel');
+            setOpen(false);
+            expect($el.textContent).toBe('Closed');
+            expect(render).toHaveBeenCalledTimes(1);
+        });
+
+        it('should keep every root of multi-root markup', () => {
+            const [open, setOpen] = ultraState(true);
+            const $el = UltraShow({ when: open, render: () => '<h2>Title</h2><p>Body</p>', fallback: () => '<em>A</em><em>B</em>' });
+            expect($el.innerHTML).toBe('<h2>Title</h2><p>Body</p>');
+            setOpen(false);
+            expect($el.innerHTML).toBe('<em>A</em><em>B</em>');
+        });
+
+        it('should dispose the hidden branch', () => {
+            const [open, setOpen] = ultraState(true);
+            const [count, setCount, subscribeCount] = ultraState(0);
+            const listener = vi.fn();
+            const cleanup = vi.fn();
+            UltraShow({
+                when: open,
+                render: () => {
+                    subscribeCount(listener);
+                    return UltraComponent({ component: '<p>Panel</p>', cleanup: [cleanup] });
+                }
+            });
+            setOpen(false);
+            expect(cleanup).toHaveBeenCalledTimes(1);
+            setCount(count() + 1);
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('should render a new branch every time the condition becomes true', () => {
+            const [open, setOpen] = ultraState(true);
+            const render = vi.fn(() => '<p>Panel</p>');
+            const $el = UltraShow({ when: open, render });
+            const first = $el.firstChild;
+            setOpen(false);
+            setOpen(true);
+            expect(render).toHaveBeenCalledTimes(2);
+            expect($el.firstChild).not.toBe(first);
+        });
+
+        it('should reuse kept-alive branches', () => {
+            const [open, setOpen] = ultraState(true);
+            const [count, setCount, subscribeCount] = ultraState(0);
+            const listener = vi.fn();
+            const render = vi.fn(() => {
+                subscribeCount(listener);
+                return '<p>Panel</p>';
+            });
+            const $el = UltraShow({ when: open, render, fallback: () => '<em>Closed</em>', keepAlive: 1 });
+            const panel = $el.firstChild;
+            setOpen(false);
+            setCount(count() + 1);
+            expect(listener).toHaveBeenCalledTimes(1);
+            setOpen(true);
+            expect(render).toHaveBeenCalledTimes(1);
+            expect($el.firstChild).toBe(panel);
+            expect($el.childNodes.length).toBe(1);
+        });
+
+        it('should not re-check the condition when the branch reads other states', () => {
+            const [label, setLabel] = ultraState('a');
+            const when = vi.fn(() => true);
+            UltraShow({ when, render: () => `<p>${label()}</p>` });
+            setLabel('b');
+            expect(when).toHaveBeenCalledTimes(1);
+        });
+
+        it('should unmount everything on _cleanup', () => {
+            const [open, setOpen] = ultraState(true);
+            const cleanup = vi.fn();
+            const $el = UltraShow({
+                when: open,
+                render: () => UltraComponent({ component: '<p>Panel</p>', cleanup: [cleanup] })
+            });
+            $el._cleanup?.();
+            expect(cleanup).toHaveBeenCalledTimes(1);
+            setOpen(false);
+            setOpen(true);
+            expect($el.childNodes.length).toBe(0);
+        });
+
+    }, time_out);
+
+    suite('UltraSwitch', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, { window: happyWindow, document: happyWindow.document });
+        });
+
+        type Tab = 'profile' | 'billing' | 'team';
+
+        it('should mount the matching case and the fallback otherwise', () => {
+            const [tab, setTab] = ultraState<Tab>('profile');
+            const $el = UltraSwitch({
+                value: tab,
+                cases: { profile: () => '<p>Profile</p>', billing: () => '<p>Billing</p>' },
+                fallback: () => '<p>Not found</p>'
+            });
+            expect($el.textContent).toBe('Profile');
+            setTab('billing');
+            expect($el.textContent).toBe('Billing');
+            setTab('team');
+            expect($el.textContent).toBe('Not found');
+        });
+
+        it('should keep the N most recent cases alive', () => {
+            const [tab, setTab] = ultraState<Tab>('profile');
+            const cleanups = { profile: vi.fn(), billing: vi.fn(), team: vi.fn() };
+            const renders = { profile: vi.fn(), billing: vi.fn(), team: vi.fn() };
+            const renderCase = (name: Tab) => () => {
+                renders[name]();
+                return UltraComponent({ component: `<p>${name}</p>`, cleanup: [cleanups[name]] });
+            };
+            const $el = UltraSwitch({
+                value: tab,
+                cases: { profile: renderCase('profile'), billing: renderCase('billing'), team: renderCase('team') },
+                keepAlive: 1
+            });
+            setTab('billing');
+            expect(cleanups.profile).not.toHaveBeenCalled();
+            setTab('team');
+            expect(cleanups.profile).toHaveBeenCalledTimes(1);
+            expect(cleanups.billing).not.toHaveBeenCalled();
+            setTab('billing');
+            expect(renders.billing).toHaveBeenCalledTimes(1);
+            expect($el.textContent).toBe('billing');
+            $el._cleanup?.();
+            expect(cleanups.billing).toHaveBeenCalledTimes(1);
+            expect(cleanups.team).toHaveBeenCalledTimes(1);
+        });
+
+        it('should render nothing when no case matches and there is no fallback', () => {
+            const $el = UltraSwitch<Tab>({ value: () => 'team', cases: { profile: () => '<p>Profile</p>' } });
+            expect($el.childNodes.length).toBe(0);
+        });
+
+    }, time_out);
+
     suite('UltraRouter', () => {
 
         beforeAll(() => {
@@ -958,121 +1653,1847 @@ describe('Components', () => {
 
     }, time_out);
 
-    suite('UltraLink', () => {
+    suite('UltraRouter: path matching', () => {
 
         beforeAll(() => {
             Object.assign(globalThis, {
                 window: happyWindow,
                 document: happyWindow.document,
-                PopStateEvent: happyWindow.PopStateEvent
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow)
             });
-            happyWindow.history.pushState({}, '', '/');
         });
 
-        it('should return an HTMLAnchorElement', () => {
-            const link = UltraLink({ href: '/home', children: [] });
-            expect(link).toBeInstanceOf(window.HTMLAnchorElement);
-        });
+        const render = (path: string, ...routes: Parameters<typeof UltraRouter>): string | undefined => {
+            happyWindow.history.pushState({}, '', path);
+            const router = UltraRouter(...routes);
+            router._cleanup?.();
+            return router.querySelector('p')?.textContent;
+        };
 
-        it('should set the href attribute', () => {
-            const link = UltraLink({ href: '/foo', children: [] }) as HTMLAnchorElement;
-            expect(link.href).toBe(`${HOST_PATH}/foo`);
-        });
+        const show = (name: string) => (params: Record<string, string> = {}) =>
+            `<p>${name}${JSON.stringify(params)}</p>`;
 
-        it('should append valid children', () => {
-            const link = UltraLink({
-                href: '/home',
-                children: ['<span>Click me</span>', '<em>!</em>']
-            });
-            expect(link.children.length).toBe(2);
-            expect(link.children[0]).toBeInstanceOf(window.HTMLSpanElement);
-            expect(link.children[1]).toBeInstanceOf(window.HTMLElement);
+        it('should match optional params whether or not they are present', () => {
+            const route = { path: '/posts/:page?', component: show('posts') };
+            expect(render('/posts', route)).toBe('posts{}');
+            expect(render('/posts/2', route)).toBe('posts{"page":"2"}');
+            expect(render('/posts/2/extra', route)).toBeUndefined();
         });
 
-        it('should skip null children', () => {
-            const link = UltraLink({
-                href: '/home',
-                children: ['<span>Click</span>', null]
-            });
-            expect(link.children.length).toBe(1);
+        it('should match optional params in the middle of a path', () => {
+            const route = { path: '/:lang?/about', component: show('about') };
+            expect(render('/about', route)).toBe('about{}');
+            expect(render('/es/about', route)).toBe('about{"lang":"es"}');
         });
 
-        it('should apply class names to the anchor element', () => {
-            const link = UltraLink({
-                href: '/home',
-                children: [],
-                className: ['nav-link', 'active']
-            });
-            expect(link.classList.contains('nav-link')).toBe(true);
-            expect(link.classList.contains('active')).toBe(true);
+        it('should capture trailing splats', () => {
+            const route = { path: '/files/*path', component: show('files') };
+            expect(render('/files/docs/2024/report.pdf', route)).toBe('files{"path":"docs/2024/report.pdf"}');
+            expect(render('/files', route)).toBe('files{"path":""}');
         });
 
-        it('should expose a _cleanup function', () => {
-            const link = UltraLink({ href: '/home', children: [] });
-            expect(link._cleanup).toBeInstanceOf(Function);
+        it('should enforce param constraints', () => {
+            const routes = [
+                { path: '/items/:id(\\d+)', component: show('id') },
+                { path: '/items/:slug', component: show('slug') }
+            ];
+            expect(render('/items/42', ...routes)).toBe('id{"id":"42"}');
+            expect(render('/items/hat', ...routes)).toBe('slug{"slug":"hat"}');
         });
 
-        it('should warn when href is not provided', () => {
-            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
-            UltraLink({ href: '', children: [] });
-            expect(warnSpy).toHaveBeenCalledWith(
-                expect.stringContaining('UltraLink')
-            );
-            warnSpy.mockRestore();
+        it('should URL-decode params', () => {
+            const route = { path: '/search/:term', component: show('search') };
+            expect(render('/search/caf%C3%A9%20au%20lait', route)).toBe('search{"term":"café au lait"}');
         });
 
-        it('should navigate to the href on click', () => {
-            const link = UltraLink({ href: '/foo', children: [] });
-            link.click();
-            expect(window.location.pathname).toBe('/foo');
+        it('should keep malformed escapes as they are', () => {
+            const route = { path: '/search/:term', component: show('search') };
+            expect(render('/search/100%', route)).toBe('search{"term":"100%"}');
         });
 
-        it('should not navigate when already on the target path', () => {
-            happyWindow.history.pushState({}, '', '/same');
-            const link = UltraLink({ href: '/same', children: [] });
-            const popstateSpy = vi.fn();
-            happyWindow.addEventListener('popstate', popstateSpy);
-            link.click();
-            expect(popstateSpy).not.toHaveBeenCalled();
-            happyWindow.removeEventListener('popstate', popstateSpy);
+        it('should prefer static segments regardless of declaration order', () => {
+            const routes = [
+                { path: '/users/:id', component: show('user') },
+                { path: '/users/new', component: show('new') }
+            ];
+            expect(render('/users/new', ...routes)).toBe('new{}');
+            expect(render('/users/7', ...routes)).toBe('user{"id":"7"}');
         });
 
-        it('should not navigate when Ctrl key is held', () => {
-            happyWindow.history.pushState({}, '', '/start');
-            const link = UltraLink({ href: '/ctrl-blocked', children: [] });
-            const popstateSpy = vi.fn();
-            window.addEventListener('popstate', popstateSpy);
-            // @ts-expect-error: happy-dom MouseEvent differs from lib.dom types
-            link.dispatchEvent(new window.MouseEvent('click', { bubbles: true, ctrlKey: true }));
-            expect(popstateSpy).not.toHaveBeenCalled();
-            window.removeEventListener('popstate', popstateSpy);
+        it('should prefer params over splats and exact paths over optional params', () => {
+            expect(render('/files/a',
+                { path: '/files/*rest', component: show('splat') },
+                { path: '/files/:name', component: show('param') }
+            )).toBe('param{"name":"a"}');
+            expect(render('/shop',
+                { path: '/shop/:category?', component: show('optional') },
+                { path: '/shop', component: show('exact') }
+            )).toBe('exact{}');
         });
 
-        it('should not navigate when Meta key is held', () => {
-            happyWindow.history.pushState({}, '', '/start');
-            const link = UltraLink({ href: '/meta-blocked', children: [] });
-            const popstateSpy = vi.fn();
-            window.addEventListener('popstate', popstateSpy);
-            // @ts-expect-error: happy-dom MouseEvent differs from lib.dom types
-            link.dispatchEvent(new window.MouseEvent('click', { bubbles: true, metaKey: true }));
-            expect(popstateSpy).not.toHaveBeenCalled();
-            window.removeEventListener('popstate', popstateSpy);
+        it('should still use the /* wildcard only as a fallback', () => {
+            expect(render('/nothing',
+                { path: '/*', component: show('wildcard') },
+                { path: '/:page', component: show('page') }
+            )).toBe('page{"page":"nothing"}');
         });
 
-        it('should call window.scrollTo on navigation', () => {
-            happyWindow.history.pushState({}, '', '/scroll-start');
-            const scrollSpy = vi.spyOn(window, 'scrollTo').mockImplementation(() => { });
-            const link = UltraLink({ href: '/scroll-dest', children: [] });
-            link.click();
-            expect(scrollSpy).toHaveBeenCalledWith({ top: 0, behavior: 'instant' });
-            scrollSpy.mockRestore();
+        it('should warn about equivalent patterns with different param names', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
+            UltraRouter(
+                { path: '/users/:id', component: show('a') },
+                { path: '/users/:userId', component: show('b') },
+                { path: '/users/:id(\\d+)', component: show('c') }
+            );
+            expect(warnSpy).toHaveBeenCalledTimes(1);
+            expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Duplicate routes'), '/users/:userId');
+            warnSpy.mockRestore();
         });
 
-        it('should call document.startViewTransition when viewTransition is true and API is available', () => {
-            happyWindow.history.pushState({}, '', '/vt-start');
-            const transitionSpy = vi.fn((cb: () => void) => cb());
-            Object.defineProperty(document, 'startViewTransition', {
-                value: transitionSpy,
+    }, time_out);
+
+    suite('UltraRouter: nested routes', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow)
+            });
+        });
+
+        const navigate = (path: string): void => {
+            happyWindow.history.pushState({}, '', path);
+            window.dispatchEvent(new window.PopStateEvent('popstate'));
+        };
+
+        const settingsRoutes = (onLayout: () => void = () => {}) => ({
+            path: '/settings',
+            layout: (outlet: HTMLElement) => {
+                onLayout();
+                return UltraComponent({
+                    component: '<section class="layout"><h1>Settings</h1></section>',
+                    children: [outlet]
+                });
+            },
+            children: [
+                { path: '', component: () => '<p>Overview</p>' },
+                { path: 'profile', component: () => '<p>Profile</p>' },
+                { path: 'billing', component: () => '<p>Billing</p>' }
+            ]
+        });
+
+        it('should render the matched child inside the layout outlet', () => {
+            happyWindow.history.pushState({}, '', '/settings/profile');
+            const router = UltraRouter(settingsRoutes());
+            const $layout = router.querySelector('.layout');
+            expect($layout?.querySelector('h1')?.textContent).toBe('Settings');
+            expect($layout?.querySelector('.ultra-outlet p')?.textContent).toBe('Profile');
+        });
+
+        it('should render the index child when the parent path matches exactly', () => {
+            happyWindow.history.pushState({}, '', '/settings');
+            const router = UltraRouter(settingsRoutes());
+            expect(router.querySelector('.ultra-outlet p')?.textContent).toBe('Overview');
+        });
+
+        it('should keep the layout mounted when navigating between its children', () => {
+            happyWindow.history.pushState({}, '', '/settings/profile');
+            const onLayout = vi.fn();
+            const router = UltraRouter(settingsRoutes(onLayout));
+            const $layout = router.querySelector('.layout');
+
+            navigate('/settings/billing');
+
+            expect(onLayout).toHaveBeenCalledTimes(1);
+            expect(router.querySelector('.layout')).toBe($layout);
+            expect(router.querySelectorAll('.ultra-outlet p').length).toBe(1);
+            expect(router.querySelector('.ultra-outlet p')?.textContent).toBe('Billing');
+        });
+
+        it('should keep layout subscriptions alive while disposing the previous child\'s', () => {
+            happyWindow.history.pushState({}, '', '/settings/profile');
+            const [get, set, subscribe] = ultraState(0);
+            const layoutListener = vi.fn();
+            const childListener = vi.fn();
+
+            UltraRouter({
+                path: '/settings',
+                layout: (outlet) => {
+                    subscribe(layoutListener);
+                    return outlet;
+                },
+                children: [
+                    {
+                        path: 'profile', component: () => {
+                            subscribe(childListener);
+                            return '<p>Profile</p>';
+                        }
+                    },
+                    { path: 'billing', component: () => '<p>Billing</p>' }
+                ]
+            });
+
+            navigate('/settings/billing');
+            set(get() + 1);
+
+            expect(layoutListener).toHaveBeenCalledTimes(1);
+            expect(childListener).not.toHaveBeenCalled();
+        });
+
+        it('should tear down the layout when navigating outside of it', () => {
+            happyWindow.history.pushState({}, '', '/settings/profile');
+            let layoutCleanedUp = false;
+            const router = UltraRouter(
+                {
+                    path: '/settings',
+                    layout: (outlet) => UltraComponent({
+                        component: '<section class="layout"></section>',
+                        children: [outlet],
+                        cleanup: [() => { layoutCleanedUp = true; }]
+                    }),
+                    children: [{ path: 'profile', component: () => '<p>Profile</p>' }]
+                },
+                { path: '/home', component: () => '<p>Home</p>' }
+            );
+
+            navigate('/home');
+
+            expect(layoutCleanedUp).toBe(true);
+            expect(router.querySelector('.layout')).toBeNull();
+            expect(router.querySelector('p')?.textContent).toBe('Home');
+        });
+
+        it('should re-render the layout when its own params change', () => {
+            happyWindow.history.pushState({}, '', '/users/1/posts');
+            const layout = vi.fn((outlet: HTMLElement) => outlet);
+            const router = UltraRouter({
+                path: '/users/:id',
+                layout,
+                children: [{ path: 'posts', component: ({ id } = {}) => `<p>${id}</p>` }]
+            });
+
+            navigate('/users/2/posts');
+
+            expect(layout).toHaveBeenCalledTimes(2);
+            expect(router.querySelector('p')?.textContent).toBe('2');
+        });
+
+        it('should pass parent params down to child routes', () => {
+            happyWindow.history.pushState({}, '', '/teams/7/members/3');
+            const router = UltraRouter({
+                path: '/teams/:teamId',
+                children: [{
+                    path: 'members/:memberId',
+                    component: ({ teamId, memberId } = {}) => `<p>${teamId}-${memberId}</p>`
+                }]
+            });
+            expect(router.querySelector('p')?.textContent).toBe('7-3');
+        });
+
+        it('should fall back to a nested wildcard before the top-level one', () => {
+            happyWindow.history.pushState({}, '', '/settings/unknown');
+            const router = UltraRouter(
+                {
+                    path: '/settings',
+                    children: [
+                        { path: 'profile', component: () => '<p>Profile</p>' },
+                        { path: '*', component: () => '<p>Settings Not Found</p>' }
+                    ]
+                },
+                { path: '/*', component: () => '<p>Not Found</p>' }
+            );
+            expect(router.querySelector('p')?.textContent).toBe('Settings Not Found');
+        });
+
+        it('should fall back to the top-level wildcard when no child matches', () => {
+            happyWindow.history.pushState({}, '', '/settings/unknown');
+            const router = UltraRouter(
+                settingsRoutes(),
+                { path: '/*', component: () => '<p>Not Found</p>' }
+            );
+            expect(router.querySelector('.layout')).toBeNull();
+            expect(router.querySelector('p')?.textContent).toBe('Not Found');
+        });
+
+        it('should clean up every mounted level when the router is cleaned up', () => {
+            happyWindow.history.pushState({}, '', '/settings/profile');
+            const cleanups: string[] = [];
+            const router = UltraRouter({
+                path: '/settings',
+                layout: (outlet) => UltraComponent({
+                    component: '<section></section>',
+                    children: [outlet],
+                    cleanup: [() => cleanups.push('layout')]
+                }),
+                children: [{
+                    path: 'profile',
+                    component: () => UltraComponent({
+                        component: '<p>Profile</p>',
+                        cleanup: [() => cleanups.push('profile')]
+                    })
+                }]
+            });
+            router._cleanup?.();
+            expect(cleanups).toEqual(['profile', 'layout']);
+        });
+
+        it('should warn about duplicate nested routes', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
+            UltraRouter(
+                { path: '/settings', children: [{ path: 'profile', component: () => '<p></p>' }] },
+                { path: '/settings/profile', component: () => '<p></p>' }
+            );
+            expect(warnSpy).toHaveBeenCalledWith(
+                expect.stringContaining('Duplicate routes'),
+                '/settings/profile'
+            );
+            warnSpy.mockRestore();
+        });
+
+    }, time_out);
+
+    suite('UltraRouter: guards and redirects', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow)
+            });
+        });
+
+        const navigate = (path: string): void => {
+            happyWindow.history.pushState({}, '', path);
+            window.dispatchEvent(new window.PopStateEvent('popstate'));
+        };
+
+        it('should follow a route redirect', () => {
+            happyWindow.history.pushState({}, '', '/old');
+            const router = UltraRouter(
+                { path: '/old', redirect: '/new' },
+                { path: '/new', component: () => '<p>New</p>' }
+            );
+            expect(window.location.pathname).toBe('/new');
+            expect(router.querySelector('p')?.textContent).toBe('New');
+        });
+
+        it('should not construct a component whose beforeEnter guard cancels', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const component = vi.fn(() => '<p>Admin</p>');
+            const router = UltraRouter(
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/admin', component, beforeEnter: () => false }
+            );
+
+            navigate('/admin');
+
+            expect(component).not.toHaveBeenCalled();
+            expect(router.querySelector('p')?.textContent).toBe('Home');
+            expect(window.location.pathname).toBe('/');
+        });
+
+        it('should report a throwing component as a render error, not a guard error', () => {
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const history = ultraMemoryHistory(['/broken']);
+            const router = UltraRouter(
+                { history, beforeEach: () => true },
+                { path: '/broken', component: () => { throw new Error('boom'); }, error: () => '<p>Broken</p>' }
+            );
+            expect(router.querySelector('p')?.textContent).toBe('Broken');
+            expect(history.location.pathname).toBe('/broken');
+            expect(errorSpy).not.toHaveBeenCalledWith('UltraRouter: navigation guard error:', expect.anything());
+            errorSpy.mockRestore();
+            router._cleanup?.();
+        });
+
+        it('should log a component throwing after an async guard', async () => {
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const history = ultraMemoryHistory(['/broken']);
+            const router = UltraRouter(
+                { history, beforeEach: () => Promise.resolve(true) },
+                { path: '/broken', component: () => { throw new Error('boom'); } }
+            );
+            await Promise.resolve();
+            await Promise.resolve();
+            expect(errorSpy).toHaveBeenCalledWith('UltraRouter: route render error:', expect.any(Error));
+            errorSpy.mockRestore();
+            router._cleanup?.();
+        });
+
+        it('should undo a cancelled Back without overwriting the entry', () => {
+            const history = ultraMemoryHistory(['/a', '/b']);
+            let allowA = false;
+            const router = UltraRouter(
+                { history, beforeEach: (to) => to.pathname !== '/a' || allowA },
+                { path: '/a', component: () => '<p>A</p>' },
+                { path: '/b', component: () => '<p>B</p>' }
+            );
+            history.go(-1);
+            expect(history.location.pathname).toBe('/b');
+            expect(router.querySelector('p')?.textContent).toBe('B');
+            allowA = true;
+            history.go(-1);
+            expect(history.location.pathname).toBe('/a');
+            expect(router.querySelector('p')?.textContent).toBe('A');
+            router._cleanup?.();
+        });
+
+        it('should not leave a duplicate entry behind a cancelled push', () => {
+            const history = ultraMemoryHistory(['/start', '/']);
+            const router = UltraRouter(
+                { history },
+                { path: '/start', component: () => '<p>Start</p>' },
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/admin', component: () => '<p>Admin</p>', beforeEnter: () => false }
+            );
+            ultraNavigate({ href: '/admin' });
+            expect(history.location.pathname).toBe('/');
+            history.go(-1);
+            expect(history.location.pathname).toBe('/start');
+            expect(router.querySelector('p')?.textContent).toBe('Start');
+            router._cleanup?.();
+        });
+
+        it('should redirect when a beforeEnter guard returns a path', () => {
+            happyWindow.history.pushState({}, '', '/account');
+            const router = UltraRouter(
+                { path: '/account', component: () => '<p>Account</p>', beforeEnter: () => '/login' },
+                { path: '/login', component: () => '<p>Login</p>' }
+            );
+            expect(window.location.pathname).toBe('/login');
+            expect(router.querySelector('p')?.textContent).toBe('Login');
+        });
+
+        it('should pass the target and previous locations to guards', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const guard = vi.fn(() => true);
+            UltraRouter(
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/users/:id', component: () => '<p>User</p>', beforeEnter: guard }
+            );
+
+            navigate('/users/5?tab=posts');
+
+            expect(guard).toHaveBeenCalledWith(
+                expect.objectContaining({ pathname: '/users/5', params: { id: '5' }, query: { tab: 'posts' } }),
+                expect.objectContaining({ pathname: '/' })
+            );
+        });
+
+        it('should run the beforeEnter guards of parent routes', () => {
+            happyWindow.history.pushState({}, '', '/admin/users');
+            const router = UltraRouter(
+                {
+                    path: '/admin',
+                    beforeEnter: () => '/login',
+                    children: [{ path: 'users', component: () => '<p>Users</p>' }]
+                },
+                { path: '/login', component: () => '<p>Login</p>' }
+            );
+            expect(router.querySelector('p')?.textContent).toBe('Login');
+        });
+
+        it('should run the global beforeEach guard before route guards', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const calls: string[] = [];
+            UltraRouter(
+                { beforeEach: () => { calls.push('beforeEach'); } },
+                { path: '/', component: () => '<p>Home</p>', beforeEnter: () => { calls.push('beforeEnter'); } }
+            );
+            expect(calls).toEqual(['beforeEach', 'beforeEnter']);
+        });
+
+        it('should let beforeEach cancel navigations', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const router = UltraRouter(
+                { beforeEach: (to) => to.pathname !== '/private' },
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/private', component: () => '<p>Private</p>' }
+            );
+            navigate('/private');
+            expect(router.querySelector('p')?.textContent).toBe('Home');
+        });
+
+        it('should wait for async guards before rendering', async () => {
+            happyWindow.history.pushState({}, '', '/');
+            let allow: (value: boolean) => void = () => {};
+            const router = UltraRouter(
+                { path: '/', component: () => '<p>Home</p>' },
+                {
+                    path: '/async',
+                    component: () => '<p>Async</p>',
+                    beforeEnter: () => new Promise<boolean>(resolve => { allow = resolve; })
+                }
+            );
+
+            navigate('/async');
+            expect(router.querySelector('p')?.textContent).toBe('Home');
+
+            allow(true);
+            await Promise.resolve();
+            await Promise.resolve();
+            expect(router.querySelector('p')?.textContent).toBe('Async');
+        });
+
+        it('should ignore a pending async guard superseded by a newer navigation', async () => {
+            happyWindow.history.pushState({}, '', '/');
+            let allow: (value: boolean) => void = () => {};
+            const router = UltraRouter(
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/other', component: () => '<p>Other</p>' },
+                {
+                    path: '/slow',
+                    component: () => '<p>Slow</p>',
+                    beforeEnter: () => new Promise<boolean>(resolve => { allow = resolve; })
+                }
+            );
+
+            navigate('/slow');
+            navigate('/other');
+            allow(true);
+            await Promise.resolve();
+            await Promise.resolve();
+
+            expect(router.querySelector('p')?.textContent).toBe('Other');
+        });
+
+        it('should cancel the navigation when a guard throws', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
+            const router = UltraRouter(
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/broken', component: () => '<p>Broken</p>', beforeEnter: () => { throw new Error('boom'); } }
+            );
+            navigate('/broken');
+            expect(router.querySelector('p')?.textContent).toBe('Home');
+            expect(errorSpy).toHaveBeenCalled();
+            errorSpy.mockRestore();
+        });
+
+        it('should stop following redirect loops', () => {
+            happyWindow.history.pushState({}, '', '/a');
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
+            UltraRouter(
+                { path: '/a', redirect: '/b' },
+                { path: '/b', redirect: '/a' }
+            );
+            expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('too many redirects'));
+            errorSpy.mockRestore();
+        });
+
+    }, time_out);
+
+    suite('UltraRouter: loaders', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow)
+            });
+        });
+
+        const navigate = (path: string): void => {
+            happyWindow.history.pushState({}, '', path);
+            window.dispatchEvent(new window.PopStateEvent('popstate'));
+        };
+
+        const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+        it('should pass the loaded data to the component', async () => {
+            happyWindow.history.pushState({}, '', '/products/3?sort=asc');
+            const loader = vi.fn((params: Record<string, string>, query: Record<string, string>) =>
+                Promise.resolve(`${params.id}-${query.sort}`));
+            const router = UltraRouter({
+                path: '/products/:id',
+                loader,
+                component: (_params, data) => `<p>${data as string}</p>`
+            });
+            await flush();
+            expect(loader).toHaveBeenCalledWith({ id: '3' }, { sort: 'asc' }, expect.any(AbortSignal));
+            expect(router.querySelector('p')?.textContent).toBe('3-asc');
+        });
+
+        it('should not construct the component until the loader resolves', async () => {
+            happyWindow.history.pushState({}, '', '/slow');
+            let resolve: (value: string) => void = () => {};
+            const component = vi.fn(() => '<p>Loaded</p>');
+            UltraRouter({
+                path: '/slow',
+                loader: () => new Promise<string>(r => { resolve = r; }),
+                component
+            });
+            await flush();
+            expect(component).not.toHaveBeenCalled();
+            resolve('done');
+            await flush();
+            expect(component).toHaveBeenCalledTimes(1);
+        });
+
+        it('should render the pending content while loading', async () => {
+            happyWindow.history.pushState({}, '', '/pending');
+            let resolve: (value: string) => void = () => {};
+            const router = UltraRouter({
+                path: '/pending',
+                loader: () => new Promise<string>(r => { resolve = r; }),
+                pending: () => '<p>Loading...</p>',
+                component: () => '<p>Loaded</p>'
+            });
+            expect(router.querySelector('p')?.textContent).toBe('Loading...');
+            resolve('done');
+            await flush();
+            expect(router.querySelectorAll('p').length).toBe(1);
+            expect(router.querySelector('p')?.textContent).toBe('Loaded');
+        });
+
+        it('should fall back to the router pending content', () => {
+            happyWindow.history.pushState({}, '', '/pending-default');
+            const router = UltraRouter(
+                { pending: () => '<p>Please wait</p>' },
+                { path: '/pending-default', loader: () => new Promise(() => {}), component: () => '<p>Loaded</p>' }
+            );
+            expect(router.querySelector('p')?.textContent).toBe('Please wait');
+        });
+
+        it('should render the error content when the loader rejects', async () => {
+            happyWindow.history.pushState({}, '', '/failing');
+            const router = UltraRouter({
+                path: '/failing',
+                loader: () => Promise.reject(new Error('Not found')),
+                error: (error) => `<p>${(error as Error).message}</p>`,
+                component: () => '<p>Loaded</p>'
+            });
+            await flush();
+            expect(router.querySelector('p')?.textContent).toBe('Not found');
+        });
+
+        it('should fall back to the router error content', async () => {
+            happyWindow.history.pushState({}, '', '/failing-default');
+            const router = UltraRouter(
+                { error: () => '<p>Something went wrong</p>' },
+                { path: '/failing-default', loader: () => { throw new Error('boom'); }, component: () => '<p>Loaded</p>' }
+            );
+            await flush();
+            expect(router.querySelector('p')?.textContent).toBe('Something went wrong');
+        });
+
+        it('should render the error content when the component throws after its loader', async () => {
+            happyWindow.history.pushState({}, '', '/loaded-broken');
+            const router = UltraRouter(
+                {
+                    path: '/loaded-broken',
+                    loader: () => Promise.resolve('data'),
+                    component: () => { throw new Error('boom'); },
+                    error: (error) => `<p>${(error as Error).message}</p>`
+                }
+            );
+            await flush();
+            expect(router.querySelector('p')?.textContent).toBe('boom');
+        });
+
+        it('should abort and discard a stale load when navigating away', async () => {
+            happyWindow.history.pushState({}, '', '/');
+            let signal: AbortSignal | null = null;
+            let resolve: (value: string) => void = () => {};
+            const component = vi.fn(() => '<p>Stale</p>');
+            const router = UltraRouter(
+                { path: '/', component: () => '<p>Home</p>' },
+                {
+                    path: '/stale',
+                    loader: (_params, _query, s) => {
+                        signal = s;
+                        return new Promise<string>(r => { resolve = r; });
+                    },
+                    component
+                }
+            );
+
+            navigate('/stale');
+            navigate('/');
+            resolve('late');
+            await flush();
+
+            expect(signal!.aborted).toBe(true);
+            expect(component).not.toHaveBeenCalled();
+            expect(router.querySelector('p')?.textContent).toBe('Home');
+        });
+
+        it('should keep the layout mounted and only show pending content in its outlet', async () => {
+            happyWindow.history.pushState({}, '', '/shop/a');
+            const layout = vi.fn((outlet: HTMLElement) => UltraComponent({
+                component: '<main class="shop"></main>',
+                children: [outlet]
+            }));
+            const router = UltraRouter({
+                path: '/shop',
+                layout,
+                children: [
+                    { path: 'a', component: () => '<p>A</p>' },
+                    {
+                        path: 'b',
+                        loader: () => Promise.resolve('B'),
+                        pending: () => '<p>Loading B</p>',
+                        component: (_params, data) => `<p>${data as string}</p>`
+                    }
+                ]
+            });
+
+            navigate('/shop/b');
+            expect(router.querySelector('.shop .ultra-outlet p')?.textContent).toBe('Loading B');
+            await flush();
+            expect(router.querySelector('.shop .ultra-outlet p')?.textContent).toBe('B');
+            expect(layout).toHaveBeenCalledTimes(1);
+        });
+
+        it('should abort a pending load when the router is cleaned up', () => {
+            happyWindow.history.pushState({}, '', '/cleanup-load');
+            let signal: AbortSignal | null = null;
+            const router = UltraRouter({
+                path: '/cleanup-load',
+                loader: (_params, _query, s) => {
+                    signal = s;
+                    return new Promise(() => {});
+                },
+                component: () => '<p>Loaded</p>'
+            });
+            router._cleanup?.();
+            expect(signal!.aborted).toBe(true);
+        });
+
+    }, time_out);
+
+    suite('UltraRouter: lazy routes', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow)
+            });
+        });
+
+        const navigate = (path: string): void => {
+            happyWindow.history.pushState({}, '', path);
+            window.dispatchEvent(new window.PopStateEvent('popstate'));
+        };
+
+        const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+        it('should render the default export of the lazy module', async () => {
+            happyWindow.history.pushState({}, '', '/lazy-page/4');
+            const router = UltraRouter({
+                path: '/lazy-page/:id',
+                lazy: () => Promise.resolve({ default: ({ id } = {}) => `<p>Lazy ${id}</p>` })
+            });
+            await flush();
+            expect(router.querySelector('p')?.textContent).toBe('Lazy 4');
+        });
+
+        it('should show the pending content while the module loads', async () => {
+            happyWindow.history.pushState({}, '', '/lazy-pending');
+            let resolve: (module: { default: () => string }) => void = () => {};
+            const router = UltraRouter({
+                path: '/lazy-pending',
+                lazy: () => new Promise(r => { resolve = r; }),
+                pending: () => '<p>Loading module</p>'
+            });
+            expect(router.querySelector('p')?.textContent).toBe('Loading module');
+            resolve({ default: () => '<p>Module</p>' });
+            await flush();
+            expect(router.querySelector('p')?.textContent).toBe('Module');
+        });
+
+        it('should load the module once and render synchronously afterwards', async () => {
+            happyWindow.history.pushState({}, '', '/lazy-once');
+            const lazy = vi.fn(() => Promise.resolve(() => '<p>Once</p>'));
+            const router = UltraRouter(
+                { path: '/lazy-once', lazy },
+                { path: '/elsewhere', component: () => '<p>Elsewhere</p>' }
+            );
+            await flush();
+            navigate('/elsewhere');
+            navigate('/lazy-once');
+            expect(router.querySelector('p')?.textContent).toBe('Once');
+            expect(lazy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should render the error content and retry when the module fails to load', async () => {
+            happyWindow.history.pushState({}, '', '/lazy-failing');
+            const lazy = vi.fn()
+                .mockReturnValueOnce(Promise.reject(new Error('chunk failed')))
+                .mockReturnValue(Promise.resolve(() => '<p>Recovered</p>'));
+            const router = UltraRouter(
+                { path: '/lazy-failing', lazy, error: () => '<p>Failed</p>' },
+                { path: '/elsewhere', component: () => '<p>Elsewhere</p>' }
+            );
+            await flush();
+            expect(router.querySelector('p')?.textContent).toBe('Failed');
+            navigate('/elsewhere');
+            navigate('/lazy-failing');
+            await flush();
+            expect(router.querySelector('p')?.textContent).toBe('Recovered');
+        });
+
+        it('should dispose subscriptions made by the lazy component when navigating away', async () => {
+            happyWindow.history.pushState({}, '', '/lazy-scope');
+            const [get, set, subscribe] = ultraState(0);
+            const listener = vi.fn();
+            UltraRouter(
+                {
+                    path: '/lazy-scope',
+                    lazy: () => Promise.resolve(() => {
+                        subscribe(listener);
+                        return '<p>Scoped</p>';
+                    })
+                },
+                { path: '/elsewhere', component: () => '<p>Elsewhere</p>' }
+            );
+            await flush();
+            navigate('/elsewhere');
+            set(get() + 1);
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('should prefetch the lazy modules matching an href', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const lazy = vi.fn(() => Promise.resolve(() => '<p>Prefetched</p>'));
+            const router = UltraRouter(
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/prefetched/:id', lazy }
+            );
+            ultraPrefetch('/prefetched/1');
+            expect(lazy).toHaveBeenCalledTimes(1);
+            router._cleanup?.();
+        });
+
+        it('should prefetch when a prefetching UltraLink is hovered', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const lazy = vi.fn(() => Promise.resolve(() => '<p>Hovered</p>'));
+            const router = UltraRouter(
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/hovered', lazy }
+            );
+            const link = UltraLink({ href: '/hovered', children: [], prefetch: true });
+            link.dispatchEvent(new window.MouseEvent('mouseenter') as unknown as MouseEvent);
+            expect(lazy).toHaveBeenCalledTimes(1);
+            router._cleanup?.();
+        });
+
+        it('should not prefetch routes of routers that were cleaned up', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const lazy = vi.fn(() => Promise.resolve(() => '<p>Gone</p>'));
+            const router = UltraRouter(
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/gone', lazy }
+            );
+            router._cleanup?.();
+            ultraPrefetch('/gone');
+            expect(lazy).not.toHaveBeenCalled();
+        });
+
+    }, time_out);
+
+    suite('UltraRouter: history modes', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow),
+                PopStateEvent: happyWindow.PopStateEvent
+            });
+        });
+
+        it('should match the path stored in the hash', () => {
+            happyWindow.history.pushState({}, '', '/#/hash-page/3');
+            const router = UltraRouter(
+                { mode: 'hash' },
+                { path: '/hash-page/:id', component: ({ id } = {}) => `<p>Hash ${id}</p>` }
+            );
+            expect(router.querySelector('p')?.textContent).toBe('Hash 3');
+            router._cleanup?.();
+        });
+
+        it('should navigate by rewriting the hash', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const router = UltraRouter(
+                { mode: 'hash' },
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/hash-about', component: () => '<p>About</p>' }
+            );
+            ultraNavigate({ href: '/hash-about?tab=team' });
+            expect(window.location.hash).toBe('#/hash-about?tab=team');
+            expect(window.location.pathname).toBe('/');
+            expect(router.querySelector('p')?.textContent).toBe('About');
+            expect(ultraQueryParams()).toEqual({ tab: 'team' });
+            router._cleanup?.();
+        });
+
+        it('should render hash hrefs on links', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const router = UltraRouter({ mode: 'hash' }, { path: '/', component: () => '<p>Home</p>' });
+            const link = UltraLink({ href: '/hash-link', children: [] });
+            expect(link.getAttribute('href')).toBe('#/hash-link');
+            router._cleanup?.();
+        });
+
+        it('should update the hrefs of links built before the router', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const link = UltraLink({ href: '/about', children: [] });
+            expect(link.getAttribute('href')).toBe('/about');
+            const router = UltraRouter({ mode: 'hash' }, { path: '/', component: () => '<p>Home</p>' });
+            expect(link.getAttribute('href')).toBe('#/about');
+            router._cleanup?.();
+            expect(link.getAttribute('href')).toBe('/about');
+            link._cleanup?.();
+        });
+
+        it('should navigate in memory without touching the page URL', () => {
+            happyWindow.history.pushState({}, '', '/untouched');
+            const router = UltraRouter(
+                { mode: 'memory' },
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/memory-page', component: () => '<p>Memory</p>' }
+            );
+            expect(router.querySelector('p')?.textContent).toBe('Home');
+            const link = UltraLink({ href: '/memory-page', children: [] });
+            link.click();
+            expect(router.querySelector('p')?.textContent).toBe('Memory');
+            expect(window.location.pathname).toBe('/untouched');
+            router._cleanup?.();
+        });
+
+        it('should go back and forward through memory entries', () => {
+            const history = ultraMemoryHistory(['/', '/one', '/two'], 1);
+            const router = UltraRouter(
+                { history },
+                { path: '/', component: () => '<p>Zero</p>' },
+                { path: '/one', component: () => '<p>One</p>' },
+                { path: '/two', component: () => '<p>Two</p>' }
+            );
+            expect(router.querySelector('p')?.textContent).toBe('One');
+            history.go(1);
+            expect(router.querySelector('p')?.textContent).toBe('Two');
+            history.go(-2);
+            expect(router.querySelector('p')?.textContent).toBe('Zero');
+            history.push('/two');
+            history.go(1);
+            expect(history.location.pathname).toBe('/two');
+            router._cleanup?.();
+        });
+
+        it('should redirect within the memory history', () => {
+            const history = ultraMemoryHistory(['/old']);
+            const router = UltraRouter(
+                { history },
+                { path: '/old', redirect: '/new' },
+                { path: '/new', component: () => '<p>New</p>' }
+            );
+            expect(router.querySelector('p')?.textContent).toBe('New');
+            expect(history.location.pathname).toBe('/new');
+            router._cleanup?.();
+        });
+
+        it('should render every root of a route returning multi-root markup', () => {
+            const router = UltraRouter(
+                { history: ultraMemoryHistory(['/']) },
+                { path: '/', component: () => '<h1>Title</h1><p>Body</p>' }
+            );
+            expect(Array.from(router.children).map(child => child.tagName)).toEqual(['H1', 'P']);
+            router._cleanup?.();
+        });
+
+        it('should fall back to the browser history once the router is cleaned up', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const router = UltraRouter({ mode: 'memory' }, { path: '/', component: () => '<p>Home</p>' });
+            router._cleanup?.();
+            ultraNavigate({ href: '/after-cleanup' });
+            expect(window.location.pathname).toBe('/after-cleanup');
+        });
+
+    }, time_out);
+
+    suite('UltraRouter: scroll restoration', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow),
+                PopStateEvent: happyWindow.PopStateEvent
+            });
+        });
+
+        const mountRouter = (...routes: Parameters<typeof UltraRouter>): HTMLElement => {
+            const router = UltraRouter(...routes);
+            document.body.appendChild(router);
+            return router;
+        };
+
+        const unmount = (router: HTMLElement & { _cleanup?: () => void }): void => {
+            router._cleanup?.();
+            router.remove();
+        };
+
+        it('should scroll to the top on new navigations and restore the position on back', () => {
+            happyWindow.history.pushState({}, '', '/scroll-list');
+            const router = mountRouter(
+                { path: '/scroll-list', component: () => '<p>List</p>' },
+                { path: '/scroll-item', component: () => '<p>Item</p>' }
+            );
+            window.scrollTo({ top: 400 });
+            ultraNavigate({ href: '/scroll-item' });
+            expect(window.scrollY).toBe(0);
+            window.scrollTo({ top: 50 });
+            happyWindow.history.back();
+            expect(router.querySelector('p')?.textContent).toBe('List');
+            expect(window.scrollY).toBe(400);
+            happyWindow.history.forward();
+            expect(window.scrollY).toBe(50);
+            unmount(router);
+        });
+
+        it('should scroll to the element targeted by the hash', () => {
+            happyWindow.history.pushState({}, '', '/scroll-docs');
+            const router = mountRouter(
+                { path: '/scroll-docs', component: () => '<section><h2 id="install">Install</h2></section>' }
+            );
+            const scrollSpy = vi.spyOn(happyWindow.HTMLElement.prototype, 'scrollIntoView');
+            ultraNavigate({ href: '/scroll-docs#install' });
+            expect(scrollSpy).toHaveBeenCalledTimes(1);
+            expect(scrollSpy.mock.contexts[0]).toBe(router.querySelector('#install'));
+            scrollSpy.mockRestore();
+            unmount(router);
+        });
+
+        it('should scroll to the hash target on the initial render', async () => {
+            happyWindow.history.pushState({}, '', '/scroll-initial#part');
+            const scrollIntoView = vi.fn();
+            const router = mountRouter({
+                path: '/scroll-initial',
+                component: () => {
+                    const section = document.createElement('section') as unknown as HTMLElement;
+                    section.id = 'part';
+                    section.scrollIntoView = scrollIntoView;
+                    return section;
+                }
+            });
+            expect(scrollIntoView).not.toHaveBeenCalled();
+            await nextFrame();
+            expect(scrollIntoView).toHaveBeenCalledTimes(1);
+            unmount(router);
+        });
+
+        it('should leave the scroll position alone for routes that opt out', () => {
+            happyWindow.history.pushState({}, '', '/scroll-home');
+            const router = mountRouter(
+                { path: '/scroll-home', component: () => '<p>Home</p>' },
+                { path: '/scroll-tabs', scroll: false, children: [{ path: ':tab', component: () => '<p>Tab</p>' }] }
+            );
+            window.scrollTo({ top: 250 });
+            ultraNavigate({ href: '/scroll-tabs/a' });
+            expect(window.scrollY).toBe(250);
+            unmount(router);
+        });
+
+        it('should use the position returned by a custom scroll behavior', () => {
+            happyWindow.history.pushState({}, '', '/scroll-source');
+            const scroll = vi.fn(() => ({ left: 0, top: 120 }));
+            const router = mountRouter(
+                { path: '/scroll-source', component: () => '<p>Source</p>' },
+                { path: '/scroll-custom', component: () => '<p>Custom</p>', scroll }
+            );
+            ultraNavigate({ href: '/scroll-custom' });
+            expect(scroll).toHaveBeenCalledWith(expect.objectContaining({ pathname: '/scroll-custom' }), null);
+            expect(window.scrollY).toBe(120);
+            unmount(router);
+        });
+
+        it('should not scroll when the router uses a memory history', () => {
+            happyWindow.history.pushState({}, '', '/');
+            const scrollSpy = vi.spyOn(window, 'scrollTo');
+            const router = mountRouter(
+                { mode: 'memory' },
+                { path: '/', component: () => '<p>Home</p>' },
+                { path: '/other', component: () => '<p>Other</p>' }
+            );
+            ultraNavigate({ href: '/other' });
+            expect(scrollSpy).not.toHaveBeenCalled();
+            scrollSpy.mockRestore();
+            unmount(router);
+        });
+
+    }, time_out);
+
+    suite('ultraBlocker', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow),
+                PopStateEvent: happyWindow.PopStateEvent
+            });
+        });
+
+        const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+        const routes = [
+            { path: '/edit', component: () => '<p>Edit</p>' },
+            { path: '/list', component: () => '<p>List</p>' }
+        ];
+
+        it('should let navigations through while shouldBlock returns false', () => {
+            happyWindow.history.pushState({}, '', '/edit');
+            const router = UltraRouter(...routes);
+            const confirm = vi.fn(() => false);
+            const dispose = ultraBlocker(() => false, { confirm });
+            ultraNavigate({ href: '/list' });
+            expect(confirm).not.toHaveBeenCalled();
+            expect(router.querySelector('p')?.textContent).toBe('List');
+            dispose();
+            router._cleanup?.();
+        });
+
+        it('should cancel ultraNavigate calls that are not confirmed', () => {
+            happyWindow.history.pushState({}, '', '/edit');
+            const router = UltraRouter(...routes);
+            const confirm = vi.fn(() => false);
+            const dispose = ultraBlocker(() => true, { confirm });
+            ultraNavigate({ href: '/list' });
+            expect(confirm).toHaveBeenCalledWith({ action: 'push', from: '/edit', to: '/list' });
+            expect(window.location.pathname).toBe('/edit');
+            expect(router.querySelector('p')?.textContent).toBe('Edit');
+            dispose();
+            router._cleanup?.();
+        });
+
+        it('should wait for an asynchronous confirmation before following a link', async () => {
+            happyWindow.history.pushState({}, '', '/edit');
+            const router = UltraRouter(...routes);
+            let answer: (allowed: boolean) => void = () => {};
+            const dispose = ultraBlocker(() => true, { confirm: () => new Promise(r => { answer = r; }) });
+            UltraLink({ href: '/list', children: [] }).click();
+            expect(window.location.pathname).toBe('/edit');
+            answer(true);
+            await flush();
+            expect(window.location.pathname).toBe('/list');
+            expect(router.querySelector('p')?.textContent).toBe('List');
+            dispose();
+            router._cleanup?.();
+        });
+
+        it('should restore the URL when Back is not confirmed', () => {
+            const history = ultraMemoryHistory(['/list', '/edit']);
+            const router = UltraRouter({ history }, ...routes);
+            const confirm = vi.fn(() => false);
+            const dispose = ultraBlocker(() => true, { confirm });
+            history.go(-1);
+            expect(confirm).toHaveBeenCalledWith({ action: 'pop', from: '/edit', to: '/list' });
+            expect(history.location.pathname).toBe('/edit');
+            expect(router.querySelector('p')?.textContent).toBe('Edit');
+            dispose();
+            history.go(-1);
+            expect(history.location.pathname).toBe('/list');
+            expect(router.querySelector('p')?.textContent).toBe('List');
+            router._cleanup?.();
+        });
+
+        it('should undo a blocked Back without overwriting browser entries', () => {
+            happyWindow.history.pushState({}, '', '/list');
+            const router = UltraRouter(...routes);
+            ultraNavigate({ href: '/edit' });
+            const dispose = ultraBlocker(() => true, { confirm: () => false });
+            happyWindow.history.back();
+            expect(window.location.pathname).toBe('/edit');
+            dispose();
+            happyWindow.history.back();
+            expect(window.location.pathname).toBe('/list');
+            expect(router.querySelector('p')?.textContent).toBe('List');
+            router._cleanup?.();
+        });
+
+        it('should undo a blocked Back from an entry the browser added for a fragment', () => {
+            happyWindow.history.pushState({}, '', '/list');
+            const router = UltraRouter(...routes);
+            ultraNavigate({ href: '/edit' });
+            happyWindow.history.pushState(null, '', '/edit#notes');
+            window.dispatchEvent(new window.PopStateEvent('popstate'));
+            const dispose = ultraBlocker(() => true, { confirm: () => false });
+            happyWindow.history.back();
+            expect(window.location.pathname + window.location.hash).toBe('/edit#notes');
+            dispose();
+            happyWindow.history.back();
+            expect(window.location.pathname + window.location.hash).toBe('/edit');
+            happyWindow.history.back();
+            expect(window.location.pathname).toBe('/list');
+            router._cleanup?.();
+        });
+
+        it('should complete a Back navigation once it is confirmed', async () => {
+            const history = ultraMemoryHistory(['/list', '/edit']);
+            const router = UltraRouter({ history }, ...routes);
+            const dispose = ultraBlocker(() => true, { confirm: () => Promise.resolve(true) });
+            history.go(-1);
+            expect(history.location.pathname).toBe('/edit');
+            await flush();
+            expect(history.location.pathname).toBe('/list');
+            expect(router.querySelector('p')?.textContent).toBe('List');
+            dispose();
+            history.go(1);
+            expect(history.location.pathname).toBe('/edit');
+            router._cleanup?.();
+        });
+
+        it('should cancel navigations attempted while a confirmation is pending', () => {
+            happyWindow.history.pushState({}, '', '/edit');
+            const router = UltraRouter(...routes);
+            const confirm = vi.fn(() => new Promise<boolean>(() => {}));
+            const dispose = ultraBlocker(() => true, { confirm });
+            ultraNavigate({ href: '/list' });
+            ultraNavigate({ href: '/list' });
+            expect(confirm).toHaveBeenCalledTimes(1);
+            dispose();
+            router._cleanup?.();
+        });
+
+        it('should prevent unloading only while blocking', () => {
+            let dirty = true;
+            const dispose = ultraBlocker(() => dirty);
+            const blocked = new window.Event('beforeunload', { cancelable: true });
+            window.dispatchEvent(blocked);
+            expect(blocked.defaultPrevented).toBe(true);
+            dirty = false;
+            const allowed = new window.Event('beforeunload', { cancelable: true });
+            window.dispatchEvent(allowed);
+            expect(allowed.defaultPrevented).toBe(false);
+            dispose();
+        });
+
+        it('should stop blocking once its scope is disposed', () => {
+            happyWindow.history.pushState({}, '', '/edit');
+            const router = UltraRouter(...routes);
+            const confirm = vi.fn(() => false);
+            const [, dispose] = ultraScope(() => ultraBlocker(() => true, { confirm }));
+            dispose();
+            ultraNavigate({ href: '/list' });
+            expect(confirm).not.toHaveBeenCalled();
+            expect(window.location.pathname).toBe('/list');
+            router._cleanup?.();
+        });
+
+    }, time_out);
+
+    suite('ultraRoute', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow),
+                PopStateEvent: happyWindow.PopStateEvent
+            });
+        });
+
+        it('should expose the committed pathname, params, query and hash', () => {
+            happyWindow.history.pushState({}, '', '/route-state/7?tab=info#top');
+            const router = UltraRouter({ path: '/route-state/:id', component: () => '<p>State</p>' });
+            const route = ultraRoute();
+            expect(route.pathname.get()).toBe('/route-state/7');
+            expect(route.params.get()).toEqual({ id: '7' });
+            expect(route.query.get()).toEqual({ tab: 'info' });
+            expect(route.hash.get()).toBe('#top');
+            router._cleanup?.();
+        });
+
+        it('should notify subscribers on navigation', () => {
+            happyWindow.history.pushState({}, '', '/route-a');
+            const router = UltraRouter(
+                { path: '/route-a', component: () => '<p>A</p>' },
+                { path: '/route-b/:id', component: () => '<p>B</p>' }
+            );
+            const route = ultraRoute();
+            const onPathname = vi.fn();
+            const onParams = vi.fn();
+            route.pathname.subscribe(onPathname);
+            route.params.subscribe(onParams);
+            ultraNavigate({ href: '/route-b/2' });
+            expect(onPathname).toHaveBeenCalledWith('/route-b/2');
+            expect(onParams).toHaveBeenCalledWith({ id: '2' });
+            router._cleanup?.();
+        });
+
+        it('should not notify params subscribers when the params are unchanged', () => {
+            happyWindow.history.pushState({}, '', '/route-same/1');
+            const router = UltraRouter({ path: '/route-same/:id', component: () => '<p>Same</p>' });
+            const route = ultraRoute();
+            const onParams = vi.fn();
+            route.params.subscribe(onParams);
+            ultraNavigate({ href: '/route-same/1?sort=asc' });
+            expect(onParams).not.toHaveBeenCalled();
+            router._cleanup?.();
+        });
+
+        it('should replace the query without re-rendering the route', () => {
+            happyWindow.history.pushState({}, '', '/route-query#list');
+            const component = vi.fn(() => '<p>Query</p>');
+            const router = UltraRouter({ path: '/route-query', component });
+            const route = ultraRoute();
+            const onQuery = vi.fn();
+            route.query.subscribe(onQuery);
+            const length = happyWindow.history.length;
+            route.query.set({ page: '2', q: 'ultra light' });
+            expect(window.location.search).toBe('?page=2&q=ultra+light');
+            expect(window.location.hash).toBe('#list');
+            expect(happyWindow.history.length).toBe(length);
+            expect(onQuery).toHaveBeenCalledWith({ page: '2', q: 'ultra light' });
+            expect(ultraQueryParams()).toEqual({ page: '2', q: 'ultra light' });
+            expect(component).toHaveBeenCalledTimes(1);
+            router._cleanup?.();
+        });
+
+        it('should pass the updated query to guards of the next navigation', () => {
+            happyWindow.history.pushState({}, '', '/route-from');
+            const beforeEach = vi.fn();
+            const router = UltraRouter(
+                { beforeEach },
+                { path: '/route-from', component: () => '<p>From</p>' },
+                { path: '/route-to', component: () => '<p>To</p>' }
+            );
+            ultraRoute().query.set({ filter: 'new' });
+            ultraNavigate({ href: '/route-to' });
+            expect(beforeEach).toHaveBeenLastCalledWith(
+                expect.objectContaining({ pathname: '/route-to' }),
+                expect.objectContaining({ pathname: '/route-from', query: { filter: 'new' } })
+            );
+            router._cleanup?.();
+        });
+
+    }, time_out);
+
+    suite('ultraQueryState', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow),
+                PopStateEvent: happyWindow.PopStateEvent
+            });
+        });
+
+        const schema = {
+            page: { type: 'number', default: 1 },
+            open: { type: 'boolean', default: false },
+            tags: { type: 'array' },
+            status: { type: 'enum', values: ['active', 'archived'], default: 'active' },
+            since: { type: 'date' },
+            q: { type: 'string' }
+        } as const;
+
+        it('should parse typed values from the URL', () => {
+            happyWindow.history.pushState({}, '', '/filters?page=3&open=true&tags=a&tags=b&status=archived&since=2024-05-01&q=ultra');
+            const router = UltraRouter({ path: '/filters', component: () => '<p>Filters</p>' });
+            const filters = ultraQueryState(schema);
+            expect(filters.page.get()).toBe(3);
+            expect(filters.open.get()).toBe(true);
+            expect(filters.tags.get()).toEqual(['a', 'b']);
+            expect(filters.status.get()).toBe('archived');
+            expect(filters.since.get()).toEqual(new Date(2024, 4, 1));
+            expect(filters.q.get()).toBe('ultra');
+            router._cleanup?.();
+        });
+
+        it('should fall back to the defaults for missing or invalid values', () => {
+            happyWindow.history.pushState({}, '', '/filters?page=abc&open=maybe&status=deleted&since=never');
+            const router = UltraRouter({ path: '/filters', component: () => '<p>Filters</p>' });
+            const filters = ultraQueryState(schema);
+            expect(filters.page.get()).toBe(1);
+            expect(filters.open.get()).toBe(false);
+            expect(filters.tags.get()).toEqual([]);
+            expect(filters.status.get()).toBe('active');
+            expect(filters.since.get()).toBeNull();
+            expect(filters.q.get()).toBeNull();
+            router._cleanup?.();
+        });
+
+        it('should write values back and drop the ones equal to the default', () => {
+            happyWindow.history.pushState({}, '', '/filters?page=2#results');
+            const component = vi.fn(() => '<p>Filters</p>');
+            const router = UltraRouter({ path: '/filters', component });
+            const filters = ultraQueryState(schema);
+            const onTags = vi.fn();
+            filters.tags.subscribe(onTags);
+            filters.tags.set(['x', 'y']);
+            filters.since.set(new Date('2024-01-15T12:00:00Z'));
+            filters.page.set(1);
+            expect(window.location.search).toBe('?tags=x&tags=y&since=2024-01-15');
+            expect(window.location.hash).toBe('#results');
+            expect(onTags).toHaveBeenCalledWith(['x', 'y']);
+            expect(filters.page.get()).toBe(1);
+            expect(component).toHaveBeenCalledTimes(1);
+            router._cleanup?.();
+        });
+
+        it('should read and write dates without time as local calendar days', () => {
+            const timeZone = process.env.TZ;
+            process.env.TZ = 'America/New_York';
+            const history = ultraMemoryHistory(['/filters?since=2024-05-01']);
+            const router = UltraRouter({ history }, { path: '/filters', component: () => '<p>Filters</p>' });
+            try {
+                const filters = ultraQueryState(schema);
+                expect(filters.since.get()?.getDate()).toBe(1);
+                filters.since.set(new Date(2024, 0, 15, 21, 0));
+                expect(history.location.search).toBe('?since=2024-01-15');
+            } finally {
+                router._cleanup?.();
+                if (timeZone === undefined) delete process.env.TZ;
+                else process.env.TZ = timeZone;
+            }
+        });
+
+        it('should push history entries and follow back navigation', () => {
+            const history = ultraMemoryHistory(['/filters']);
+            const router = UltraRouter({ history }, { path: '/filters', component: () => '<p>Filters</p>' });
+            const filters = ultraQueryState(schema, { navigation: 'push' });
+            filters.page.set(2);
+            filters.page.set(3);
+            expect(history.location.search).toBe('?page=3');
+            history.go(-1);
+            expect(filters.page.get()).toBe(2);
+            history.go(-1);
+            expect(filters.page.get()).toBe(1);
+            router._cleanup?.();
+        });
+
+        it('should replace the current entry by default', () => {
+            const history = ultraMemoryHistory(['/start', '/filters']);
+            const router = UltraRouter({ history }, { path: '/*', component: () => '<p>Any</p>' });
+            const filters = ultraQueryState(schema);
+            filters.status.set('archived');
+            history.go(-1);
+            expect(history.location.pathname).toBe('/start');
+            expect(filters.status.get()).toBe('active');
+            router._cleanup?.();
+        });
+
+    }, time_out);
+
+    suite('ultraNavigate: replace, state and relative hrefs', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow),
+                PopStateEvent: happyWindow.PopStateEvent
+            });
+        });
+
+        const routes = [
+            { path: '/users/:id/view', component: () => '<p>View</p>' },
+            { path: '/users/:id/edit', component: () => '<p>Edit</p>' },
+            { path: '/users/:id/view/history', component: () => '<p>History</p>' },
+            { path: '/users', component: () => '<p>Users</p>' }
+        ];
+
+        it('should replace the current entry', () => {
+            const history = ultraMemoryHistory(['/users', '/users/1/view']);
+            const router = UltraRouter({ history }, ...routes);
+            ultraNavigate({ href: '/users/1/edit', replace: true });
+            expect(router.querySelector('p')?.textContent).toBe('Edit');
+            ultraNavigate.back();
+            expect(router.querySelector('p')?.textContent).toBe('Users');
+            router._cleanup?.();
+        });
+
+        it('should expose the navigation state to route components and guards', () => {
+            const history = ultraMemoryHistory(['/users']);
+            const seen: unknown[] = [];
+            const beforeEach = vi.fn();
+            const router = UltraRouter(
+                { history, beforeEach },
+                { path: '/users', component: () => '<p>Users</p>' },
+                {
+                    path: '/users/:id/view',
+                    component: () => {
+                        seen.push(ultraRoute().state.get());
+                        return '<p>View</p>';
+                    }
+                }
+            );
+            ultraNavigate({ href: '/users/1/view', state: { from: 'list' } });
+            expect(seen).toEqual([{ from: 'list' }]);
+            expect(beforeEach).toHaveBeenLastCalledWith(
+                expect.objectContaining({ state: { from: 'list' } }),
+                expect.objectContaining({ pathname: '/users' })
+            );
+            router._cleanup?.();
+        });
+
+        it('should keep the state of entries when going back and forward', () => {
+            const history = ultraMemoryHistory(['/users']);
+            const router = UltraRouter({ history }, ...routes);
+            ultraNavigate({ href: '/users/1/view', state: { step: 1 } });
+            ultraNavigate({ href: '/users/1/edit', state: { step: 2 } });
+            ultraNavigate.back();
+            expect(ultraRoute().state.get()).toEqual({ step: 1 });
+            ultraNavigate.forward();
+            expect(ultraRoute().state.get()).toEqual({ step: 2 });
+            ultraNavigate.go(-2);
+            expect(router.querySelector('p')?.textContent).toBe('Users');
+            router._cleanup?.();
+        });
+
+        it('should resolve relative hrefs against the current route', () => {
+            const history = ultraMemoryHistory(['/users/1/view?tab=info']);
+            const router = UltraRouter({ history }, ...routes);
+            ultraNavigate({ href: '../edit' });
+            expect(history.location.pathname).toBe('/users/1/edit');
+            ultraNavigate({ href: '../view/history' });
+            expect(history.location.pathname).toBe('/users/1/view/history');
+            ultraNavigate({ href: '?page=2' });
+            expect(history.location.pathname).toBe('/users/1/view/history');
+            expect(history.location.search).toBe('?page=2');
+            router._cleanup?.();
+        });
+
+        it('should resolve relative link hrefs against the current path outside routes', () => {
+            const history = ultraMemoryHistory(['/users/2/view']);
+            const router = UltraRouter({ history }, ...routes);
+            const link = UltraLink({ href: 'history', children: [], state: { via: 'link' } });
+            expect(link.getAttribute('href')).toBe('/users/2/view/history');
+            link.click();
+            expect(history.location.pathname).toBe('/users/2/view/history');
+            expect(history.location.state).toEqual({ via: 'link' });
+            expect(router.querySelector('p')?.textContent).toBe('History');
+            router._cleanup?.();
+        });
+
+        it('should resolve relative link hrefs against the route that renders them', () => {
+            const history = ultraMemoryHistory(['/settings/profile']);
+            const router = UltraRouter(
+                { history },
+                {
+                    path: '/settings',
+                    layout: (outlet) => UltraComponent({
+                        component: '<section></section>',
+                        children: [UltraLink({ href: 'billing', children: ['Billing'] }), outlet]
+                    }),
+                    children: [
+                        { path: 'profile', component: () => '<p>Profile</p>' },
+                        { path: 'billing', component: () => '<p>Billing</p>' }
+                    ]
+                }
+            );
+            const link = router.querySelector('a')!;
+            expect(link.getAttribute('href')).toBe('/settings/billing');
+            link.click();
+            expect(history.location.pathname).toBe('/settings/billing');
+            expect(router.querySelector('p')?.textContent).toBe('Billing');
+            router._cleanup?.();
+        });
+
+        it('should update relative link hrefs outside routes on navigation', () => {
+            const history = ultraMemoryHistory(['/users/2/view']);
+            const router = UltraRouter({ history }, ...routes);
+            const link = UltraLink({ href: 'history', children: [] });
+            ultraNavigate({ href: '/users/5/view' });
+            expect(link.getAttribute('href')).toBe('/users/5/view/history');
+            link._cleanup?.();
+            router._cleanup?.();
+        });
+
+        it('should replace the entry from a link with replace set', () => {
+            const history = ultraMemoryHistory(['/users', '/users/3/view']);
+            const router = UltraRouter({ history }, ...routes);
+            UltraLink({ href: '../edit', children: [], replace: true }).click();
+            expect(history.location.pathname).toBe('/users/3/edit');
+            history.go(-1);
+            expect(history.location.pathname).toBe('/users');
+            router._cleanup?.();
+        });
+
+        it('should submit back navigations to blockers', () => {
+            const history = ultraMemoryHistory(['/users', '/users/1/view']);
+            const router = UltraRouter({ history }, ...routes);
+            const confirm = vi.fn(() => false);
+            const dispose = ultraBlocker(() => true, { confirm });
+            ultraNavigate.back();
+            expect(confirm).toHaveBeenCalledWith(expect.objectContaining({ action: 'pop', to: '/users' }));
+            expect(router.querySelector('p')?.textContent).toBe('View');
+            dispose();
+            router._cleanup?.();
+        });
+
+    }, time_out);
+
+    suite('UltraRouter: base path', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow),
+                PopStateEvent: happyWindow.PopStateEvent
+            });
+        });
+
+        const routes = [
+            { path: '/', component: () => '<p>Dashboard</p>' },
+            { path: '/users/:id', component: ({ id } = {}) => `<p>User ${id}</p>` }
+        ];
+
+        it('should match routes relative to the base path', () => {
+            happyWindow.history.pushState({}, '', '/admin/users/5');
+            const router = UltraRouter({ basePath: '/admin' }, ...routes);
+            expect(router.querySelector('p')?.textContent).toBe('User 5');
+            router._cleanup?.();
+        });
+
+        it('should match the base path itself as the root route', () => {
+            happyWindow.history.pushState({}, '', '/admin');
+            const router = UltraRouter({ basePath: '/admin/' }, ...routes);
+            expect(router.querySelector('p')?.textContent).toBe('Dashboard');
+            router._cleanup?.();
+        });
+
+        it('should prefix link hrefs and navigations with the base path', () => {
+            happyWindow.history.pushState({}, '', '/portal/');
+            const router = UltraRouter({ basePath: 'portal' }, ...routes);
+            const link = UltraLink({ href: '/users/7', children: [] });
+            expect(link.getAttribute('href')).toBe('/portal/users/7');
+            link.click();
+            expect(window.location.pathname).toBe('/portal/users/7');
+            expect(router.querySelector('p')?.textContent).toBe('User 7');
+            ultraNavigate({ href: '/' });
+            expect(window.location.pathname).toBe('/portal');
+            expect(router.querySelector('p')?.textContent).toBe('Dashboard');
+            router._cleanup?.();
+        });
+
+        it('should resolve relative hrefs and queries within the base path', () => {
+            happyWindow.history.pushState({}, '', '/admin/users/1');
+            const router = UltraRouter({ basePath: '/admin' }, ...routes);
+            ultraNavigate({ href: '../2' });
+            expect(window.location.pathname).toBe('/admin/users/2');
+            ultraRoute().query.set({ tab: 'roles' });
+            expect(window.location.pathname).toBe('/admin/users/2');
+            expect(window.location.search).toBe('?tab=roles');
+            router._cleanup?.();
+        });
+
+        it('should detect active links without the base path', () => {
+            happyWindow.history.pushState({}, '', '/admin/users/3');
+            const router = UltraRouter({ basePath: '/admin' }, ...routes);
+            const users = UltraLink({ href: '/users/3', children: [], exact: true });
+            expect(users.getAttribute('aria-current')).toBe('page');
+            expect(ultraRoute().pathname.get()).toBe('/users/3');
+            router._cleanup?.();
+        });
+
+        it('should combine the base path with hash mode', () => {
+            happyWindow.history.pushState({}, '', '/#/app/users/4');
+            const router = UltraRouter({ mode: 'hash', basePath: '/app' }, ...routes);
+            expect(router.querySelector('p')?.textContent).toBe('User 4');
+            expect(UltraLink({ href: '/', children: [] }).getAttribute('href')).toBe('#/app');
+            router._cleanup?.();
+        });
+
+    }, time_out);
+
+    suite('UltraLink: active state', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                requestAnimationFrame: happyWindow.requestAnimationFrame.bind(happyWindow),
+                PopStateEvent: happyWindow.PopStateEvent
+            });
+        });
+
+        const routes = [
+            { path: '/', component: () => '<p>Home</p>' },
+            { path: '/docs', component: () => '<p>Docs</p>' },
+            { path: '/docs/:page', component: () => '<p>Page</p>' },
+            { path: '/blog', component: () => '<p>Blog</p>' }
+        ];
+
+        it('should mark the link to the current route', () => {
+            happyWindow.history.pushState({}, '', '/docs');
+            const router = UltraRouter(...routes);
+            const docs = UltraLink({ href: '/docs', children: [], activeClassName: 'is-active' });
+            const blog = UltraLink({ href: '/blog', children: [], activeClassName: 'is-active' });
+            expect(docs.getAttribute('aria-current')).toBe('page');
+            expect(docs.classList.contains('is-active')).toBe(true);
+            expect(blog.hasAttribute('aria-current')).toBe(false);
+            expect(blog.classList.contains('is-active')).toBe(false);
+            router._cleanup?.();
+        });
+
+        it('should follow navigations', () => {
+            happyWindow.history.pushState({}, '', '/docs');
+            const router = UltraRouter(...routes);
+            const docs = UltraLink({ href: '/docs', children: [], activeClassName: 'is-active' });
+            const blog = UltraLink({ href: '/blog', children: [], activeClassName: 'is-active' });
+            blog.click();
+            expect(blog.getAttribute('aria-current')).toBe('page');
+            expect(blog.classList.contains('is-active')).toBe(true);
+            expect(docs.hasAttribute('aria-current')).toBe(false);
+            expect(docs.classList.contains('is-active')).toBe(false);
+            router._cleanup?.();
+        });
+
+        it('should match nested paths unless exact is set', () => {
+            happyWindow.history.pushState({}, '', '/docs/install');
+            const router = UltraRouter(...routes);
+            const prefix = UltraLink({ href: '/docs', children: [] });
+            const exact = UltraLink({ href: '/docs', children: [], exact: true });
+            const similar = UltraLink({ href: '/doc', children: [] });
+            expect(prefix.getAttribute('aria-current')).toBe('page');
+            expect(exact.hasAttribute('aria-current')).toBe(false);
+            expect(similar.hasAttribute('aria-current')).toBe(false);
+            router._cleanup?.();
+        });
+
+        it('should ignore the query, hash and trailing slashes of the href', () => {
+            happyWindow.history.pushState({}, '', '/docs/');
+            const router = UltraRouter(...routes);
+            const link = UltraLink({ href: '/docs?tab=api#top', children: [], exact: true });
+            expect(link.getAttribute('aria-current')).toBe('page');
+            router._cleanup?.();
+        });
+
+        it('should stop updating after _cleanup', () => {
+            happyWindow.history.pushState({}, '', '/docs');
+            const router = UltraRouter(...routes);
+            const link = UltraLink({ href: '/blog', children: [], activeClassName: 'is-active' });
+            link._cleanup?.();
+            ultraNavigate({ href: '/blog' });
+            expect(link.hasAttribute('aria-current')).toBe(false);
+            expect(link.classList.contains('is-active')).toBe(false);
+            router._cleanup?.();
+        });
+
+    }, time_out);
+
+    suite('UltraLink', () => {
+
+        beforeAll(() => {
+            Object.assign(globalThis, {
+                window: happyWindow,
+                document: happyWindow.document,
+                PopStateEvent: happyWindow.PopStateEvent
+            });
+            happyWindow.history.pushState({}, '', '/');
+        });
+
+        it('should return an HTMLAnchorElement', () => {
+            const link = UltraLink({ href: '/home', children: [] });
+            expect(link).toBeInstanceOf(window.HTMLAnchorElement);
+        });
+
+        it('should set the href attribute', () => {
+            const link = UltraLink({ href: '/foo', children: [] }) as HTMLAnchorElement;
+            expect(link.href).toBe(`${HOST_PATH}/foo`);
+        });
+
+        it('should append valid children', () => {
+            const link = UltraLink({
+                href: '/home',
+                children: ['<span>Click me</span>', '<em>!</em>']
+            });
+            expect(link.children.length).toBe(2);
+            expect(link.children[0]).toBeInstanceOf(window.HTMLSpanElement);
+            expect(link.children[1]).toBeInstanceOf(window.HTMLElement);
+        });
+
+        it('should skip null children', () => {
+            const link = UltraLink({
+                href: '/home',
+                children: ['<span>Click</span>', null]
+            });
+            expect(link.children.length).toBe(1);
+        });
+
+        it('should apply class names to the anchor element', () => {
+            const link = UltraLink({
+                href: '/home',
+                children: [],
+                className: ['nav-link', 'active']
+            });
+            expect(link.classList.contains('nav-link')).toBe(true);
+            expect(link.classList.contains('active')).toBe(true);
+        });
+
+        it('should expose a _cleanup function', () => {
+            const link = UltraLink({ href: '/home', children: [] });
+            expect(link._cleanup).toBeInstanceOf(Function);
+        });
+
+        it('should warn when href is not provided', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
+            UltraLink({ href: '', children: [] });
+            expect(warnSpy).toHaveBeenCalledWith(
+                expect.stringContaining('UltraLink')
+            );
+            warnSpy.mockRestore();
+        });
+
+        it('should navigate to the href on click', () => {
+            const link = UltraLink({ href: '/foo', children: [] });
+            link.click();
+            expect(window.location.pathname).toBe('/foo');
+        });
+
+        it('should not navigate when already on the target path', () => {
+            happyWindow.history.pushState({}, '', '/same');
+            const link = UltraLink({ href: '/same', children: [] });
+            const popstateSpy = vi.fn();
+            happyWindow.addEventListener('popstate', popstateSpy);
+            link.click();
+            expect(popstateSpy).not.toHaveBeenCalled();
+            happyWindow.removeEventListener('popstate', popstateSpy);
+        });
+
+        it('should not navigate when Ctrl key is held', () => {
+            happyWindow.history.pushState({}, '', '/start');
+            const link = UltraLink({ href: '/ctrl-blocked', children: [] });
+            const popstateSpy = vi.fn();
+            window.addEventListener('popstate', popstateSpy);
+            // @ts-expect-error: happy-dom MouseEvent differs from lib.dom types
+            link.dispatchEvent(new window.MouseEvent('click', { bubbles: true, ctrlKey: true }));
+            expect(popstateSpy).not.toHaveBeenCalled();
+            window.removeEventListener('popstate', popstateSpy);
+        });
+
+        it('should not navigate when Meta key is held', () => {
+            happyWindow.history.pushState({}, '', '/start');
+            const link = UltraLink({ href: '/meta-blocked', children: [] });
+            const popstateSpy = vi.fn();
+            window.addEventListener('popstate', popstateSpy);
+            // @ts-expect-error: happy-dom MouseEvent differs from lib.dom types
+            link.dispatchEvent(new window.MouseEvent('click', { bubbles: true, metaKey: true }));
+            expect(popstateSpy).not.toHaveBeenCalled();
+            window.removeEventListener('popstate', popstateSpy);
+        });
+
+        it('should call window.scrollTo on navigation', () => {
+            happyWindow.history.pushState({}, '', '/scroll-start');
+            const scrollSpy = vi.spyOn(window, 'scrollTo').mockImplementation(() => { });
+            const link = UltraLink({ href: '/scroll-dest', children: [] });
+            link.click();
+            expect(scrollSpy).toHaveBeenCalledWith({ top: 0, behavior: 'instant' });
+            scrollSpy.mockRestore();
+        });
+
+        it('should call document.startViewTransition when viewTransition is true and API is available', () => {
+            happyWindow.history.pushState({}, '', '/vt-start');
+            const transitionSpy = vi.fn((cb: () => void) => cb());
+            Object.defineProperty(document, 'startViewTransition', {
+                value: transitionSpy,
                 configurable: true
             });
             const link = UltraLink({ href: '/vt-dest', children: [], viewTransition: true });
@@ -1135,6 +3556,15 @@ describe('Components', () => {
             expect($app.nextElementSibling?.tagName).toBe('H1');
         });
 
+        it('should insert every root of multi-root markup after the app element', () => {
+            const $app = document.createElement('div');
+            document.body.appendChild($app);
+            // @ts-expect-error: happy-dom element type differs from lib.dom HTMLElement
+            ultraPortal($app, '<div class="backdrop"></div><div class="modal"></div>');
+            expect($app.nextElementSibling?.className).toBe('backdrop');
+            expect($app.nextElementSibling?.nextElementSibling?.className).toBe('modal');
+        });
+
         it('should create a portal element after the app element: element', () => {
             const $app = document.createElement('div');
             $app.id = 'app';
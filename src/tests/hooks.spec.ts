@@ -11,6 +11,13 @@ import {
     ultraStyles2,
     ultraQueryParams,
     ultraScope,
+    ultraComputed,
+    ultraBatch,
+    ultraAutoBatch,
+    ultraShallowEqual,
+    ultraDeepEqual,
+    ultraEffect,
+    ultraPersistedState,
     type IUltraCompStateStateful
 } from '../ultra-light';
 
@@ -160,6 +167,387 @@ describe('hooks', () => {
 
     }, time_out);
 
+    suite('ultraComputed', () => {
+
+        it('should return stateful getter and subscriber functions', () => {
+            const [get, subscribe] = ultraComputed(() => 0);
+            expect(get).toBeInstanceOf(Function);
+            expect(subscribe).toBeInstanceOf(Function);
+        });
+
+        it('should derive its value from the ultraState getters it reads', () => {
+            const [getA, setA] = ultraState(1);
+            const [getB] = ultraState(2);
+            const [sum] = ultraComputed(() => getA() + getB());
+            expect(sum()).toBe(3);
+            setA(5);
+            expect(sum()).toBe(7);
+        });
+
+        it('should track ultraCompState fields', () => {
+            const comp = ultraCompState({ first: 'John', last: 'Doe' });
+            const [fullName] = ultraComputed(() => `${comp.first.get()} ${comp.last.get()}`);
+            expect(fullName()).toBe('John Doe');
+            comp.last.set('Smith');
+            expect(fullName()).toBe('John Smith');
+        });
+
+        it('should not compute until it is first read', () => {
+            const fn = vi.fn(() => 0);
+            const [get] = ultraComputed(fn);
+            expect(fn).not.toHaveBeenCalled();
+            get();
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should recompute lazily, only once per change', () => {
+            const [getA, setA] = ultraState(1);
+            const fn = vi.fn(() => getA() * 2);
+            const [get] = ultraComputed(fn);
+            get();
+            get();
+            expect(fn).toHaveBeenCalledTimes(1);
+            setA(2);
+            setA(3);
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(get()).toBe(6);
+            expect(fn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should notify subscribers with the recomputed value', () => {
+            const [getA, setA] = ultraState(1);
+            const [, subscribe] = ultraComputed(() => getA() * 10);
+            const values: number[] = [];
+            subscribe(value => values.push(value));
+            setA(2);
+            expect(values).toEqual([20]);
+        });
+
+        it('should NOT notify subscribers when the derived value does not change', () => {
+            const [getA, setA] = ultraState(1);
+            const [, subscribe] = ultraComputed(() => getA() > 0);
+            let detected = false;
+            subscribe(() => { detected = true; });
+            setA(2);
+            expect(detected).toBe(false);
+        });
+
+        it('should drop dependencies that are no longer read', () => {
+            const [useA, setUseA] = ultraState(true);
+            const [getA, setA] = ultraState('a');
+            const [getB] = ultraState('b');
+            const fn = vi.fn(() => useA() ? getA() : getB());
+            const [get, subscribe] = ultraComputed(fn);
+            subscribe(() => {});
+            setUseA(false);
+            expect(get()).toBe('b');
+            const calls = fn.mock.calls.length;
+            setA('a2');
+            expect(fn).toHaveBeenCalledTimes(calls);
+        });
+
+        it('should track other computed getters', () => {
+            const [getA, setA] = ultraState(1);
+            const [double] = ultraComputed(() => getA() * 2);
+            const [, subscribe] = ultraComputed(() => double() + 1);
+            const values: number[] = [];
+            subscribe(value => values.push(value));
+            setA(2);
+            expect(values).toEqual([5]);
+        });
+
+        it('should stop tracking its dependencies when its ultraScope is disposed', () => {
+            const [getA, setA] = ultraState(1);
+            let notified = false;
+            const [[get], dispose] = ultraScope(() => {
+                const computed = ultraComputed(() => getA() + 1);
+                computed[1](() => { notified = true; });
+                return computed;
+            });
+            dispose();
+            setA(2);
+            expect(notified).toBe(false);
+            expect(get()).toBe(3);
+        });
+
+        it('should NOT register its dependency subscriptions in the scope active when it is read', () => {
+            const [getA, setA] = ultraState(1);
+            const [get, subscribe] = ultraComputed(() => getA() + 1);
+            const [, dispose] = ultraScope(() => get());
+            dispose();
+            const values: number[] = [];
+            subscribe(value => values.push(value));
+            setA(2);
+            expect(values).toEqual([3]);
+        });
+
+        it('should never expose a mix of old and new values in a diamond', () => {
+            const [a, setA] = ultraState(1);
+            const [b] = ultraComputed(() => a() * 2);
+            const [c] = ultraComputed(() => a() * 3);
+            const seen: string[] = [];
+            const dispose = ultraEffect(() => { seen.push(`${b()}-${c()}`); });
+            const [sum, subscribeSum] = ultraComputed(() => b() + c());
+            const sums: number[] = [];
+            subscribeSum(value => sums.push(value));
+            setA(2);
+            setA(3);
+            expect(seen).toEqual(['2-3', '4-6', '6-9']);
+            expect(sums).toEqual([10, 15]);
+            expect(sum()).toBe(15);
+            dispose();
+        });
+
+    }, time_out);
+
+    suite('ultraEffect', () => {
+
+        it('should run immediately', () => {
+            const fn = vi.fn();
+            ultraEffect(fn);
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should re-run when a state it read changes', () => {
+            const [get, set] = ultraState('a');
+            const seen: string[] = [];
+            ultraEffect(() => { seen.push(get()); });
+            set('b');
+            expect(seen).toEqual(['a', 'b']);
+        });
+
+        it('should NOT re-run when a state it did not read changes', () => {
+            const [, set] = ultraState(0);
+            const fn = vi.fn();
+            ultraEffect(fn);
+            set(1);
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should re-track its dependencies on every run', () => {
+            const [useA, setUseA] = ultraState(true);
+            const [getA, setA] = ultraState(0);
+            const fn = vi.fn(() => { if (useA()) getA(); });
+            ultraEffect(fn);
+            setUseA(false);
+            setA(1);
+            expect(fn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should run the returned cleanup before the next run and on disposal', () => {
+            const [get, set] = ultraState(0);
+            const events: string[] = [];
+            const dispose = ultraEffect(() => {
+                const value = get();
+                events.push(`run ${value}`);
+                return () => { events.push(`cleanup ${value}`); };
+            });
+            set(1);
+            dispose();
+            expect(events).toEqual(['run 0', 'cleanup 0', 'run 1', 'cleanup 1']);
+        });
+
+        it('should stop re-running after being disposed', () => {
+            const [get, set] = ultraState(0);
+            const fn = vi.fn(() => { get(); });
+            const dispose = ultraEffect(fn);
+            dispose();
+            set(1);
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should be disposed with the ultraScope it was created in', () => {
+            const [get, set] = ultraState(0);
+            const cleanup = vi.fn();
+            const fn = vi.fn(() => { get(); return cleanup; });
+            const [, dispose] = ultraScope(() => ultraEffect(fn));
+            dispose();
+            set(1);
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(cleanup).toHaveBeenCalledTimes(1);
+        });
+
+        it('should release subscriptions made during a run before re-running', () => {
+            const [get, set] = ultraState(0);
+            const [, setOther, subscribeOther] = ultraState(0);
+            const listener = vi.fn();
+            ultraEffect(() => {
+                get();
+                subscribeOther(listener);
+            });
+            set(1);
+            setOther(1);
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('should re-run once per batch', () => {
+            const [getA, setA] = ultraState(0);
+            const [getB, setB] = ultraState(0);
+            const fn = vi.fn(() => { getA(); getB(); });
+            ultraEffect(fn);
+            ultraBatch(() => {
+                setA(1);
+                setB(1);
+            });
+            expect(fn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should NOT re-trigger itself when it updates a state it reads', () => {
+            const [get, set] = ultraState(0);
+            const fn = vi.fn(() => { set(get() + 1); });
+            ultraEffect(fn);
+            set(10);
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(get()).toBe(11);
+        });
+
+        it('should track computed getters', () => {
+            const [get, set] = ultraState(1);
+            const [double] = ultraComputed(() => get() * 2);
+            const seen: number[] = [];
+            ultraEffect(() => { seen.push(double()); });
+            set(2);
+            expect(seen).toEqual([2, 4]);
+        });
+
+    }, time_out);
+
+    suite('ultraBatch', () => {
+
+        it('should return the wrapped function\'s result unchanged', () => {
+            expect(ultraBatch(() => 42)).toBe(42);
+        });
+
+        it('should defer ultraState notifications until the batch ends', () => {
+            const [get, set, subscribe] = ultraState(0);
+            const values: number[] = [];
+            subscribe(value => values.push(value));
+            ultraBatch(() => {
+                set(1);
+                set(2);
+                expect(values).toEqual([]);
+                expect(get()).toBe(2);
+            });
+            expect(values).toEqual([2]);
+        });
+
+        it('should notify a subscriber shared by several states only once', () => {
+            const [, setA, subscribeA] = ultraState(0);
+            const [, setB, subscribeB] = ultraState(0);
+            const trigger = vi.fn();
+            subscribeA(trigger);
+            subscribeB(trigger);
+            ultraBatch(() => {
+                setA(1);
+                setB(1);
+            });
+            expect(trigger).toHaveBeenCalledTimes(1);
+        });
+
+        it('should batch ultraCompState fields', () => {
+            const comp = ultraCompState({ a: 0, b: 0 });
+            const trigger = vi.fn();
+            comp.a.subscribe(trigger);
+            comp.b.subscribe(trigger);
+            ultraBatch(() => {
+                comp.a.set(1);
+                comp.b.set(1);
+            });
+            expect(trigger).toHaveBeenCalledTimes(1);
+        });
+
+        it('should batch UltraContext.set', () => {
+            const { set, subscribe } = UltraContext('light');
+            const values: string[] = [];
+            subscribe(value => values.push(value));
+            ultraBatch(() => {
+                set('dark');
+                set('contrast');
+            });
+            expect(values).toEqual(['contrast']);
+        });
+
+        it('should only flush when the outermost batch ends', () => {
+            const [, set, subscribe] = ultraState(0);
+            const trigger = vi.fn();
+            subscribe(trigger);
+            ultraBatch(() => {
+                ultraBatch(() => set(1));
+                expect(trigger).not.toHaveBeenCalled();
+                set(2);
+            });
+            expect(trigger).toHaveBeenCalledTimes(1);
+            expect(trigger).toHaveBeenCalledWith(2);
+        });
+
+        it('should flush even if the batched function throws', () => {
+            const [, set, subscribe] = ultraState(0);
+            const trigger = vi.fn();
+            subscribe(trigger);
+            expect(() => ultraBatch(() => {
+                set(1);
+                throw new Error('boom');
+            })).toThrowError();
+            expect(trigger).toHaveBeenCalledTimes(1);
+        });
+
+        it('should skip subscribers that unsubscribed before the batch ended', () => {
+            const [, set, subscribe] = ultraState(0);
+            const trigger = vi.fn();
+            const unsubscribe = subscribe(trigger);
+            ultraBatch(() => {
+                set(1);
+                unsubscribe();
+            });
+            expect(trigger).not.toHaveBeenCalled();
+        });
+
+        it('should let computed getters see updates made earlier in the batch', () => {
+            const [getA, setA] = ultraState(1);
+            const [double, subscribe] = ultraComputed(() => getA() * 2);
+            const values: number[] = [];
+            subscribe(value => values.push(value));
+            ultraBatch(() => {
+                setA(2);
+                expect(double()).toBe(4);
+                setA(3);
+            });
+            expect(values).toEqual([6]);
+        });
+
+        it('should notify computed subscribers once per batch', () => {
+            const [getA, setA] = ultraState(1);
+            const [getB, setB] = ultraState(1);
+            const [, subscribe] = ultraComputed(() => getA() + getB());
+            const trigger = vi.fn();
+            subscribe(trigger);
+            ultraBatch(() => {
+                setA(2);
+                setB(2);
+            });
+            expect(trigger).toHaveBeenCalledTimes(1);
+            expect(trigger).toHaveBeenCalledWith(4);
+        });
+
+        it('should defer notifications to a microtask when auto-batching is enabled', async () => {
+            const [, set, subscribe] = ultraState(0);
+            const trigger = vi.fn();
+            subscribe(trigger);
+            ultraAutoBatch(true);
+            try {
+                set(1);
+                set(2);
+                expect(trigger).not.toHaveBeenCalled();
+                await Promise.resolve();
+                expect(trigger).toHaveBeenCalledTimes(1);
+                expect(trigger).toHaveBeenCalledWith(2);
+            } finally {
+                ultraAutoBatch(false);
+            }
+        });
+
+    }, time_out);
+
     suite('ultraState: non-primitive state', () => {
 
         const [get, set, subscribe] = ultraState({
@@ -270,6 +658,92 @@ describe('hooks', () => {
 
     }, time_out);
 
+    suite('ultraState: equals option', () => {
+
+        it('should keep accepting the legacy freeze flag', () => {
+            const [get] = ultraState({ a: 0 }, true);
+            expect(Object.isFrozen(get())).toBe(true);
+        });
+
+        it('should accept freeze inside the options object', () => {
+            const [get] = ultraState({ a: 0 }, { freeze: true });
+            expect(Object.isFrozen(get())).toBe(true);
+        });
+
+        it('should NOT notify when the custom comparator reports equality', () => {
+            const [get, set, subscribe] = ultraState({ id: 1 }, {
+                equals: (prev, next) => prev.id === next.id
+            });
+            const original = get();
+            let detected = false;
+            subscribe(() => { detected = true; });
+            set({ id: 1 });
+            expect(detected).toBe(false);
+            expect(get()).toBe(original);
+        });
+
+        it('should notify when the custom comparator reports a change', () => {
+            const [, set, subscribe] = ultraState([1, 2], { equals: ultraShallowEqual });
+            let detected = false;
+            subscribe(() => { detected = true; });
+            set([1, 3]);
+            expect(detected).toBe(true);
+        });
+
+        it('should skip structurally identical payloads with ultraDeepEqual', () => {
+            const [, set, subscribe] = ultraState({ items: [{ id: 1 }] }, { equals: ultraDeepEqual });
+            let detected = false;
+            subscribe(() => { detected = true; });
+            set({ items: [{ id: 1 }] });
+            expect(detected).toBe(false);
+        });
+
+        it('should apply the comparator to every ultraCompState field', () => {
+            const comp = ultraCompState({ list: [1, 2], count: 0 }, { equals: ultraShallowEqual });
+            let detected = false;
+            comp.list.subscribe(() => { detected = true; });
+            comp.list.set([1, 2]);
+            expect(detected).toBe(false);
+            comp.list.set([2, 1]);
+            expect(detected).toBe(true);
+        });
+
+        it('should let ultraComputed use a custom comparator', () => {
+            const [getItems, setItems] = ultraState([1, 2, 3]);
+            const [, subscribe] = ultraComputed(
+                () => getItems().filter(n => n > 1),
+                { equals: ultraShallowEqual }
+            );
+            let detected = false;
+            subscribe(() => { detected = true; });
+            setItems([0, 2, 3]);
+            expect(detected).toBe(false);
+        });
+
+    }, time_out);
+
+    suite('ultraShallowEqual / ultraDeepEqual', () => {
+
+        it('ultraShallowEqual should compare arrays and plain objects one level deep', () => {
+            expect(ultraShallowEqual([1, 'a'], [1, 'a'])).toBe(true);
+            expect(ultraShallowEqual([1], [1, 2])).toBe(false);
+            expect(ultraShallowEqual({ a: 1, b: 2 }, { b: 2, a: 1 })).toBe(true);
+            expect(ultraShallowEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+            expect(ultraShallowEqual({ a: {} }, { a: {} })).toBe(false);
+            expect(ultraShallowEqual(NaN, NaN)).toBe(true);
+        });
+
+        it('ultraDeepEqual should compare nested data', () => {
+            expect(ultraDeepEqual({ a: [{ b: 1 }] }, { a: [{ b: 1 }] })).toBe(true);
+            expect(ultraDeepEqual({ a: [{ b: 1 }] }, { a: [{ b: 2 }] })).toBe(false);
+            expect(ultraDeepEqual(new Date(0), new Date(0))).toBe(true);
+            expect(ultraDeepEqual(new Map([['a', { b: 1 }]]), new Map([['a', { b: 1 }]]))).toBe(true);
+            expect(ultraDeepEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+            expect(ultraDeepEqual([1], { 0: 1 })).toBe(false);
+        });
+
+    }, time_out);
+
     suite('ultraContext: primitive state', () => {
 
         const { get, set, subscribe, own } = UltraContext(
@@ -884,6 +1358,138 @@ describe('hooks', () => {
 
     }, time_out);
 
+    suite('ultraPersistedState', () => {
+
+        const happyWindow = new Window({ url: 'http://localhost/' });
+        const storage = happyWindow.localStorage as unknown as Storage;
+
+        beforeAll(() => {
+            Object.assign(globalThis, { window: happyWindow });
+        });
+
+        const dispatchStorage = (key: string | null, newValue: string | null): void => {
+            const event = new happyWindow.StorageEvent('storage', { key, newValue });
+            Object.defineProperty(event, 'storageArea', { value: storage });
+            happyWindow.dispatchEvent(event);
+        };
+
+        it('should return stateful getter, setter, and subscriber functions', () => {
+            const [get, set, subscribe] = ultraPersistedState('persist-shape', 0, { storage });
+            expect(get).toBeInstanceOf(Function);
+            expect(set).toBeInstanceOf(Function);
+            expect(subscribe).toBeInstanceOf(Function);
+        });
+
+        it('should default to window.localStorage', () => {
+            const [, set] = ultraPersistedState('persist-default', 'a');
+            set('b');
+            expect(happyWindow.localStorage.getItem('persist-default')).toBe('{"value":"b","version":0}');
+        });
+
+        it('should use the initial value when nothing is stored', () => {
+            const [get] = ultraPersistedState('persist-empty', 'light', { storage });
+            expect(get()).toBe('light');
+        });
+
+        it('should hydrate from storage', () => {
+            storage.setItem('persist-hydrate', JSON.stringify({ value: 'dark', version: 0 }));
+            const [get] = ultraPersistedState('persist-hydrate', 'light', { storage });
+            expect(get()).toBe('dark');
+        });
+
+        it('should write to storage on change and notify subscribers', () => {
+            const [get, set, subscribe] = ultraPersistedState('persist-write', { collapsed: false }, { storage });
+            let detected = false;
+            subscribe(() => { detected = true; });
+            set({ collapsed: true });
+            expect(detected).toBe(true);
+            expect(get()).toEqual({ collapsed: true });
+            expect(JSON.parse(storage.getItem('persist-write')!)).toEqual({ value: { collapsed: true }, version: 0 });
+        });
+
+        it('should not subscribe an effect that sets it', () => {
+            const [src, setSrc] = ultraState(0);
+            const [get, set] = ultraPersistedState('persist-effect', '', { storage });
+            const effect = vi.fn(() => set(`x${src()}`));
+            const dispose = ultraEffect(effect);
+            set('other');
+            expect(effect).toHaveBeenCalledTimes(1);
+            expect(get()).toBe('other');
+            setSrc(1);
+            expect(get()).toBe('x1');
+            dispose();
+        });
+
+        it('should write an object that is mutated and set again', () => {
+            const settings = { collapsed: false };
+            const [, set] = ultraPersistedState('persist-mutate', settings, { storage });
+            settings.collapsed = true;
+            set(settings);
+            expect(JSON.parse(storage.getItem('persist-mutate')!)).toEqual({ value: { collapsed: true }, version: 0 });
+        });
+
+        it('should use custom serialize and deserialize functions', () => {
+            const serialize = vi.fn(({ value }: { value: number }) => String(value));
+            const deserialize = vi.fn((raw: string) => ({ value: Number(raw), version: 0 }));
+            storage.setItem('persist-custom', '5');
+            const [get, set] = ultraPersistedState('persist-custom', 0, { storage, serialize, deserialize });
+            expect(get()).toBe(5);
+            set(6);
+            expect(storage.getItem('persist-custom')).toBe('6');
+        });
+
+        it('should migrate values persisted under a different version', () => {
+            storage.setItem('persist-migrate', JSON.stringify({ value: 'dark', version: 1 }));
+            const [get] = ultraPersistedState('persist-migrate', { mode: 'light' }, {
+                storage,
+                version: 2,
+                migrate: (persisted, version) => {
+                    expect(version).toBe(1);
+                    return { mode: persisted as string };
+                }
+            });
+            expect(get()).toEqual({ mode: 'dark' });
+            expect(JSON.parse(storage.getItem('persist-migrate')!)).toEqual({ value: { mode: 'dark' }, version: 2 });
+        });
+
+        it('should discard values persisted under a different version without migrate', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
+            storage.setItem('persist-discard', JSON.stringify({ value: 'dark', version: 1 }));
+            const [get] = ultraPersistedState('persist-discard', 'light', { storage, version: 2 });
+            expect(get()).toBe('light');
+            expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('ultraPersistedState'));
+            warnSpy.mockRestore();
+        });
+
+        it('should fall back to the initial value when the stored value is corrupt', () => {
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
+            storage.setItem('persist-corrupt', '{not json');
+            const [get] = ultraPersistedState('persist-corrupt', 'light', { storage });
+            expect(get()).toBe('light');
+            errorSpy.mockRestore();
+        });
+
+        it('should sync with changes made in other tabs', () => {
+            const [get, , subscribe] = ultraPersistedState('persist-sync', 'light', { storage });
+            const values: string[] = [];
+            subscribe(value => values.push(value));
+            dispatchStorage('persist-sync', JSON.stringify({ value: 'dark', version: 0 }));
+            expect(get()).toBe('dark');
+            dispatchStorage('persist-other', JSON.stringify({ value: 'other', version: 0 }));
+            dispatchStorage('persist-sync', null);
+            expect(get()).toBe('light');
+            expect(values).toEqual(['dark', 'light']);
+        });
+
+        it('should stop syncing once its ultraScope is disposed', () => {
+            const [[get], dispose] = ultraScope(() => ultraPersistedState('persist-scope', 'light', { storage }));
+            dispose();
+            dispatchStorage('persist-scope', JSON.stringify({ value: 'dark', version: 0 }));
+            expect(get()).toBe('light');
+        });
+
+    }, time_out);
+
     suite('ultraStyles', () => {
 
         it('should return an empty object for invalid input', () => {
@@ -8,6 +8,55 @@ export interface StateSubscriber<T> {
 
 export type UltraStateReturn<T> = StateSubscriber<T>;
 
+/**
+ * Returns true when `next` should be considered the same value as `prev`, in which case
+ * setting it does not notify subscribers.
+ */
+export type UltraEqualityFn<T> = (prev: T, next: T) => boolean;
+
+export interface UltraStateOptions<T> {
+    /**
+     * Deep-freezes object values. Default is false.
+     */
+    freeze?: boolean;
+    /**
+     * Comparator deciding whether a new value is equal to the current one. By default only
+     * identical primitives are considered equal, so setting any object or array notifies.
+     */
+    equals?: UltraEqualityFn<T>;
+}
+
+/**
+ * Shape written to storage by `ultraPersistedState`.
+ */
+export interface UltraPersistedValue<T> {
+    value: T;
+    version: number;
+}
+
+export interface UltraPersistedStateOptions<T> extends UltraStateOptions<T> {
+    /**
+     * Storage backend. Default is `window.localStorage`.
+     */
+    storage?: Storage;
+    /**
+     * Turns the persisted value and its version into a string. Default is `JSON.stringify`.
+     */
+    serialize?: (persisted: UltraPersistedValue<T>) => string;
+    /**
+     * Parses a stored string back into the persisted value and version. Default is `JSON.parse`.
+     */
+    deserialize?: (raw: string) => UltraPersistedValue<unknown>;
+    /**
+     * Version of the persisted shape. Default is 0.
+     */
+    version?: number;
+    /**
+     * Upgrades a value persisted under a different version. Without it, such values are discarded.
+     */
+    migrate?: (persisted: unknown, version: number) => T;
+}
+
 export interface UltraContextReturn<T> {
     set: (newValue: T, candidate?: UltraLightElement) => void;
     get: (candidate?: UltraLightElement) => T;
@@ -19,17 +68,274 @@ export interface UltraRouteMatch {
     params: Record<string, string>;
     matched: boolean;
     isWildcard?: boolean;
+    /**
+     * Unmatched remainder of the path when matching a route prefix (routes with children).
+     */
+    rest?: string;
 }
 
-export type RouteComponentFn = (params?: Record<string, string>) => 
-    string | HTMLElement | DocumentFragment;
+/**
+ * Renders a route. `data` is the resolved value of the route's `loader`, if it has one.
+ */
+export type RouteComponentFn = (params?: Record<string, string>, data?: unknown) =>
+    UltraRenderableElement;
+
+/**
+ * Renders a layout around nested routes. The matched child route is rendered inside `outlet`,
+ * which the layout must place somewhere in its tree.
+ */
+export type RouteLayoutFn = (outlet: UltraLightDiv, params: Record<string, string>, data?: unknown) =>
+    UltraRenderableElement;
+
+/**
+ * Loads a route's component on demand, typically through a dynamic `import()`.
+ */
+export type RouteLazyFn = () => Promise<RouteComponentFn | { default: RouteComponentFn }>;
+
+/**
+ * Loads a route's data before it is rendered. `signal` is aborted when the user navigates away
+ * before the load settles.
+ */
+export type RouteLoaderFn = (
+    params: Record<string, string>,
+    query: Record<string, string>,
+    signal: AbortSignal
+) => unknown;
 
 export interface UltraRoute {
+    /**
+     * Path pattern. Paths of child routes are relative to their parent's path.
+     */
     path: string;
-    component: RouteComponentFn;
+    /**
+     * Renders the route. Required for routes without children, unless `lazy` is given.
+     */
+    component?: RouteComponentFn;
+    /**
+     * Resolves the route's component the first time the route is matched. The module is cached,
+     * and its default export (or the resolved function itself) is used as `component`.
+     */
+    lazy?: RouteLazyFn;
+    /**
+     * Wraps the matched child route. Only used by routes with children; it persists across
+     * navigations between its children as long as its own params don't change.
+     */
+    layout?: RouteLayoutFn;
+    /**
+     * Nested routes, matched against the rest of the path once this route's path matches as a prefix.
+     * A child with an empty path (`''`) renders when the parent path is matched exactly.
+     */
+    children?: UltraRoute[];
+    /**
+     * Path to redirect to when this route is the one being rendered.
+     */
+    redirect?: string;
+    /**
+     * Guard run before the route (or any of its children) is rendered.
+     */
+    beforeEnter?: UltraNavigationGuard;
+    /**
+     * Loads the data passed to `component` (or `layout`) before it is rendered.
+     */
+    loader?: RouteLoaderFn;
+    /**
+     * Rendered while the route's loader or lazy component is pending.
+     */
+    pending?: () => UltraRenderableElement;
+    /**
+     * Rendered when the route's loader or lazy component rejects.
+     */
+    error?: (error: unknown) => UltraRenderableElement;
+    /**
+     * Scroll handling once the route has rendered. `false` leaves the scroll position untouched; a
+     * function decides where to scroll. Defaults to the nearest enclosing route's setting, or the
+     * router's behavior: restore the saved position on back/forward, scroll to the `#id` target,
+     * otherwise scroll to the top.
+     */
+    scroll?: boolean | UltraScrollBehavior;
+}
+
+export interface UltraScrollPosition {
+    left: number;
+    top: number;
+}
+
+/**
+ * Returns where to scroll after navigating to `to`, or `false`/nothing to leave the scroll
+ * position untouched. `savedPosition` is the position recorded when the entry was last left.
+ */
+export type UltraScrollBehavior = (
+    to: UltraRouteLocation,
+    savedPosition: UltraScrollPosition | null
+) => UltraScrollPosition | false | void;
+
+/**
+ * Location a router navigates to (or from).
+ */
+export interface UltraRouteLocation {
+    pathname: string;
+    params: Record<string, string>;
+    query: Record<string, string>;
+    /**
+     * History state given to `ultraNavigate` or `UltraLink`, if any.
+     */
+    state: unknown;
+    /**
+     * Resolved route chain, outermost first. Empty if no route matched.
+     */
+    matched: UltraMatchedRoute[];
+}
+
+/**
+ * `true` or nothing allows the navigation, `false` cancels it and a string redirects to that path.
+ */
+export type UltraGuardResult = boolean | string | void;
+
+export type UltraNavigationGuard = (
+    to: UltraRouteLocation,
+    from: UltraRouteLocation | null
+) => UltraGuardResult | Promise<UltraGuardResult>;
+
+export type UltraHistoryMode = 'browser' | 'hash' | 'memory';
+
+export interface UltraHistoryLocation {
+    pathname: string;
+    search: string;
+    hash: string;
+    state: unknown;
+    /**
+     * Identifies the history entry; kept by `replace`, new on every `push`.
+     */
+    key: string;
+    /**
+     * Position of the entry in the history, so that moves through it can be measured (and undone).
+     */
+    index: number;
+}
+
+/**
+ * History backend consumed by `UltraRouter`, `UltraLink` and `ultraNavigate`.
+ */
+export interface UltraHistory {
+    readonly mode: UltraHistoryMode;
+    /**
+     * Current location.
+     */
+    readonly location: UltraHistoryLocation;
+    /**
+     * Adds a history entry and notifies listeners.
+     */
+    push: (href: string, state?: unknown) => void;
+    /**
+     * Replaces the current history entry and notifies listeners.
+     */
+    replace: (href: string, state?: unknown) => void;
+    /**
+     * Moves `delta` entries through the history. Listeners are notified once the move completes.
+     */
+    go: (delta: number) => void;
+    /**
+     * Subscribes to location changes.
+     */
+    listen: (listener: () => void) => () => void;
+    /**
+     * Turns an app path into the value of an anchor's `href` attribute.
+     */
+    createHref: (href: string) => string;
+}
+
+/**
+ * Navigation submitted to `ultraBlocker`. `push` comes from `UltraLink` or `ultraNavigate`, `pop`
+ * from Back/Forward (or any other history change seen by the router), and `unload` from leaving
+ * the document, in which case `to` is null.
+ */
+export interface UltraBlockedNavigation {
+    action: 'push' | 'pop' | 'unload';
+    from: string;
+    to: string | null;
+}
+
+export interface UltraBlockerOptions {
+    /**
+     * Asks whether to proceed with a blocked navigation. May resolve asynchronously, e.g. after a
+     * custom dialog is closed. Defaults to `window.confirm`. Not called for `unload`, where the
+     * browser shows its own prompt.
+     */
+    confirm?: (navigation: UltraBlockedNavigation) => boolean | Promise<boolean>;
+}
+
+export interface UltraRouterOptions {
+    /**
+     * History backend to use. Ignored when `history` is given. Default is 'browser'.
+     */
+    mode?: UltraHistoryMode;
+    /**
+     * History instance to use, e.g. a memory history with custom initial entries.
+     */
+    history?: UltraHistory;
+    /**
+     * Path the app is mounted under, e.g. '/admin'. Routes, `UltraLink` hrefs and `ultraNavigate`
+     * paths are written without it; it is added to and stripped from the URL by the router's history.
+     */
+    basePath?: string;
+    /**
+     * Guard run before every navigation, ahead of the routes' own `beforeEnter` guards.
+     */
+    beforeEach?: UltraNavigationGuard;
+    /**
+     * Rendered while a route loader is pending, for routes without their own `pending`.
+     */
+    pending?: () => UltraRenderableElement;
+    /**
+     * Rendered when a route loader rejects, for routes without their own `error`.
+     */
+    error?: (error: unknown) => UltraRenderableElement;
 }
 
-export type UltraRenderableElement = string | HTMLElement | DocumentFragment;
+/**
+ * A route of a resolved route chain, from the outermost layout down to the rendered route.
+ */
+export interface UltraMatchedRoute {
+    route: UltraRoute;
+    params: Record<string, string>;
+    /**
+     * Part of the pathname matched by this route and its parents, e.g. `/settings` for a layout
+     * rendered at `/settings/profile`.
+     */
+    pathname: string;
+}
+
+/**
+ * Markup marked as safe to parse, created by `ultraTrusted` or `ultraSafeHtml`.
+ */
+export interface UltraTrustedHtml {
+    readonly html: string;
+    toString(): string;
+}
+
+export interface UltraSafeModeOptions {
+    /**
+     * Name of a Trusted Types policy to create and use for every markup the library parses,
+     * so that it works on pages enforcing `require-trusted-types-for 'script'`. `false` stops
+     * using the current policy.
+     */
+    trustedTypes?: string | false;
+}
+
+export type UltraNamespace = 'html' | 'svg' | 'mathml';
+
+export interface UltraParseOptions {
+    /**
+     * Document used to create the nodes. Defaults to `window.document`.
+     */
+    document?: Document;
+    /**
+     * Namespace of the markup. Detected from its tags when omitted.
+     */
+    namespace?: UltraNamespace;
+}
+
+export type UltraRenderableElement = string | UltraTrustedHtml | HTMLElement | DocumentFragment;
 
 export type UltraCleanupFunction = () => void | Promise<void>;
 
@@ -51,6 +357,10 @@ export function hasCleanup(element: HTMLElement | Node): element is UltraLightEl
     return '_cleanup' in element;
 }
 
+export interface UltraLightFragment extends DocumentFragment {
+    _cleanup?: UltraCleanupFunction;
+}
+
 export interface UltraLightAnchor extends HTMLAnchorElement {
     _cleanup?: UltraCleanupFunction;
 }
@@ -65,6 +375,72 @@ export interface IUltraCompStateStateful<T> {
     subscribe: (fn: (value: T) => void) => () => void;
 }
 
+/**
+ * Current route, as returned by `ultraRoute()`. Every field updates when a router commits a navigation.
+ */
+export interface UltraRouteState {
+    pathname: Omit<IUltraCompStateStateful<string>, 'set'>;
+    /**
+     * Params of the deepest matched route.
+     */
+    params: Omit<IUltraCompStateStateful<Record<string, string>>, 'set'>;
+    /**
+     * Query params. `set` replaces them in the URL (with `replaceState`) without re-rendering the route.
+     */
+    query: IUltraCompStateStateful<Record<string, string>>;
+    /**
+     * URL fragment, including the leading `#`, or an empty string.
+     */
+    hash: Omit<IUltraCompStateStateful<string>, 'set'>;
+    /**
+     * History state of the current entry, as given to `ultraNavigate` or `UltraLink`.
+     */
+    state: Omit<IUltraCompStateStateful<unknown>, 'set'>;
+}
+
+/**
+ * How `ultraQueryState` parses one query param. Missing or invalid values fall back to `default`.
+ * Dates are written as the local `YYYY-MM-DD` day and read back as local midnight, or as a full
+ * ISO timestamp with `time: true`. Arrays are read from and written to repeated keys: `?tag=a&tag=b`.
+ */
+export type UltraQueryField =
+    | { type: 'string'; default?: string }
+    | { type: 'number'; default?: number }
+    | { type: 'boolean'; default?: boolean }
+    | { type: 'date'; default?: Date; time?: boolean }
+    | { type: 'enum'; values: readonly string[]; default?: string }
+    | { type: 'array'; default?: readonly string[] };
+
+export type UltraQuerySchema = Record<string, UltraQueryField>;
+
+export type UltraQueryFieldValue<F extends UltraQueryField> =
+    F extends { type: 'array' } ? string[]
+        : (F extends { type: 'enum'; values: readonly (infer V)[] } ? V
+            : F extends { type: 'number' } ? number
+                : F extends { type: 'boolean' } ? boolean
+                    : F extends { type: 'date' } ? Date
+                        : string) | (F extends { default: unknown } ? never : null);
+
+export type UltraQueryStateResult<S extends UltraQuerySchema> = {
+    [K in keyof S]: IUltraCompStateStateful<UltraQueryFieldValue<S[K]>>;
+};
+
+export interface UltraQueryStateOptions {
+    /**
+     * Whether `set` replaces the current history entry or pushes a new one. Default is 'replace'.
+     */
+    navigation?: 'replace' | 'push';
+}
+
+/**
+ * A static value, a getter whose `ultraState`/`ultraComputed` reads are tracked, or a field with
+ * `get` and `subscribe` (e.g. from `ultraCompState`).
+ */
+export type UltraReactiveValue<T> =
+    | T
+    | (() => T)
+    | Pick<IUltraCompStateStateful<T>, 'get' | 'subscribe'>;
+
 export type UltraCompStateResult<T extends Record<string, unknown>> = {
     [K in keyof T]: T[K] extends <A>(comp: never, arg: A) => infer R
         ? <A>(arg: A) => R
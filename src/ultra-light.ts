@@ -3,6 +3,33 @@ import {
     type UltraContextReturn,
     type UltraRouteMatch,
     type UltraRoute,
+    type UltraMatchedRoute,
+    type RouteComponentFn,
+    type RouteLayoutFn,
+    type RouteLoaderFn,
+    type RouteLazyFn,
+    type UltraRouteLocation,
+    type UltraGuardResult,
+    type UltraNavigationGuard,
+    type UltraRouterOptions,
+    type UltraHistory,
+    type UltraHistoryMode,
+    type UltraHistoryLocation,
+    type UltraRouteState,
+    type UltraScrollPosition,
+    type UltraScrollBehavior,
+    type UltraBlockedNavigation,
+    type UltraBlockerOptions,
+    type UltraQueryField,
+    type UltraQuerySchema,
+    type UltraQueryStateOptions,
+    type UltraQueryStateResult,
+    type UltraReactiveValue,
+    type UltraLightFragment,
+    type UltraTrustedHtml,
+    type UltraSafeModeOptions,
+    type UltraNamespace,
+    type UltraParseOptions,
     type UltraTrigger,
     type UltraCleanupFunction,
     type UltraLightElement,
@@ -13,6 +40,10 @@ import {
     type UltraCompStateResult,
     type IUltraCompStateStateful,
     type AllHTMLAttributes,
+    type UltraEqualityFn,
+    type UltraStateOptions,
+    type UltraPersistedValue,
+    type UltraPersistedStateOptions,
     CSSProperties
 } from './types';
 
@@ -20,53 +51,273 @@ export type {
     UltraStateReturn,
     UltraContextReturn,
     UltraRoute,
+    UltraMatchedRoute,
+    RouteComponentFn,
+    RouteLayoutFn,
+    RouteLoaderFn,
+    RouteLazyFn,
+    UltraRouteLocation,
+    UltraGuardResult,
+    UltraNavigationGuard,
+    UltraRouterOptions,
+    UltraHistory,
+    UltraHistoryMode,
+    UltraHistoryLocation,
+    UltraRouteState,
+    UltraScrollPosition,
+    UltraScrollBehavior,
+    UltraBlockedNavigation,
+    UltraBlockerOptions,
+    UltraQueryField,
+    UltraQuerySchema,
+    UltraQueryStateOptions,
+    UltraQueryStateResult,
+    UltraReactiveValue,
+    UltraLightFragment,
+    UltraTrustedHtml,
+    UltraSafeModeOptions,
+    UltraNamespace,
+    UltraParseOptions,
     UltraTrigger,
     UltraCleanupFunction,
     UltraLightElement,
     UltraLightAnchor,
     UltraLightDiv,
     IUltraCompStateStateful,
-    UltraRenderableElement
+    UltraRenderableElement,
+    UltraEqualityFn,
+    UltraStateOptions,
+    UltraPersistedValue,
+    UltraPersistedStateOptions
 }
 
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const MATHML_NAMESPACE = 'http://www.w3.org/1998/Math/MathML';
+
+// Tags that only exist in SVG, lowercased. Tags that also exist in HTML (`a`, `title`, `image`,
+// `font`, `set`, `style`, `script`) are in AMBIGUOUS_TAGS instead.
 const SVG_EXCLUSIVE_TAGS = new Set([
     'svg', 'circle', 'ellipse', 'line', 'polygon', 'polyline', 'rect', 'path', 'g',
-    'defs', 'symbol', 'use', 'marker', 'clipPath', 'mask', 'pattern', 'title', 'text', 'tspan',
+    'defs', 'symbol', 'use', 'marker', 'clipPath', 'mask', 'pattern', 'text', 'tspan', 'textPath',
     'linearGradient', 'radialGradient', 'meshGradient', 'stop', 'hatch', 'hatchpath',
-    'animate', 'animateMotion', 'animateTransform', 'set', 'animateColor', 'mpath',
+    'animate', 'animateMotion', 'animateTransform', 'animateColor', 'mpath',
     'filter', 'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite',
     'feConvolveMatrix', 'feDiffuseLighting', 'feDisplacementMap', 'feDistantLight',
     'feDropShadow', 'feFlood', 'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR',
     'feGaussianBlur', 'feImage', 'feMerge', 'feMergeNode', 'feMorphology',
     'feOffset', 'fePointLight', 'feSpecularLighting', 'feSpotLight', 'feTile',
-    'feTurbulence', 'view', 'font', 'glyph', 'missing-glyph', 'vkern', 'hkern',
-    'color-profile', 'switch', 'cursor', 'image'
+    'feTurbulence', 'view', 'glyph', 'missing-glyph', 'vkern', 'hkern',
+    'color-profile', 'switch', 'cursor', 'foreignObject', 'desc', 'metadata'
+].map(tag => tag.toLowerCase()));
+
+const MATHML_EXCLUSIVE_TAGS = new Set([
+    'math', 'mi', 'mn', 'mo', 'ms', 'mtext', 'mspace', 'mrow', 'mfrac', 'msqrt', 'mroot',
+    'mstyle', 'merror', 'mpadded', 'mphantom', 'mfenced', 'menclose', 'msub', 'msup',
+    'msubsup', 'munder', 'mover', 'munderover', 'mmultiscripts', 'mprescripts', 'none',
+    'mtable', 'mtr', 'mtd', 'mlabeledtr', 'maction', 'semantics', 'annotation', 'annotation-xml'
 ]);
 
+const AMBIGUOUS_TAGS = new Set(['a', 'title', 'image', 'font', 'set', 'style', 'script']);
+
 const TAG_REGEX = /^<([a-z][a-z0-9-]*)/i;
 
-export function parseHTMLString(
-    htmlString: string | HTMLElement | Node,
-    document?: Document
-): HTMLElement | Node | null {
-    if (!document) document = window.document;
-    if (typeof htmlString !== 'string') return htmlString;    
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+};
+
+// Markup created by ultraTrusted/ultraSafeHtml; a WeakSet so that look-alike objects are not trusted.
+const trustedMarkup = new WeakSet<object>();
+
+interface TrustedTypePolicy {
+    createHTML(input: string): unknown;
+}
+
+let safeMode = false;
+let trustedTypesPolicy: TrustedTypePolicy | null = null;
+
+function isTrustedHtml(value: unknown): value is UltraTrustedHtml {
+    return typeof value === 'object' && value !== null && trustedMarkup.has(value);
+}
+
+// Every markup string the library assigns to innerHTML goes through here.
+function setMarkup(element: Element, html: string): void {
+    element.innerHTML = (trustedTypesPolicy ? trustedTypesPolicy.createHTML(html) : html) as string;
+}
+
+/**
+ * Escapes `&`, `<`, `>`, `"` and `'` so that a value can be interpolated in markup as text or as a
+ * quoted attribute value. `null` and `undefined` become an empty string.
+ * @param value
+ * @returns
+ */
+export function ultraEscape(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    return String(value as string).replace(/[&<>"']/g, char => HTML_ESCAPES[char]!);
+}
+
+/**
+ * Marks markup as trusted, so that it is parsed as is, including in safe mode. Only use it for
+ * markup that contains no user-controlled content.
+ * @param html
+ * @returns
+ */
+export function ultraTrusted(html: string): UltraTrustedHtml {
+    const trusted: UltraTrustedHtml = { html, toString: () => html };
+    trustedMarkup.add(trusted);
+    return trusted;
+}
+
+/**
+ * Tagged template that escapes every interpolated value and returns trusted markup. Trusted values
+ * are kept as they are and arrays are joined, so templates can be composed:
+ * ```ts
+ * ultraSafeHtml`<ul>${items.map(item => ultraSafeHtml`<li>${item.name}</li>`)}</ul>`
+ * ```
+ * @param strings
+ * @param values
+ * @returns
+ */
+export function ultraSafeHtml(strings: TemplateStringsArray, ...values: unknown[]): UltraTrustedHtml {
+    const toMarkup = (value: unknown): string => {
+        if (isTrustedHtml(value)) return value.html;
+        if (Array.isArray(value)) return value.map(toMarkup).join('');
+        return ultraEscape(value);
+    };
+    return ultraTrusted(strings.reduce((html, part, i) => html + toMarkup(values[i - 1]) + part));
+}
+
+/**
+ * Enables or disables safe mode. While enabled, `parseHTMLString` — and so every component taking
+ * markup — throws on plain strings: markup has to come from {@link ultraSafeHtml} or
+ * {@link ultraTrusted}, or be built as nodes. Disabled by default.
+ *
+ * With `trustedTypes`, a Trusted Types policy of that name is created (when the browser supports
+ * them) and used for all the markup the library parses, whether safe mode is enabled or not.
+ * @param enabled
+ * @param options
+ */
+export function ultraSafeMode(enabled = true, { trustedTypes }: UltraSafeModeOptions = {}): void {
+    safeMode = enabled;
+    if (trustedTypes === undefined) return;
+    if (trustedTypes === false) {
+        trustedTypesPolicy = null;
+        return;
+    }
+    const factory = (window as { trustedTypes?: { createPolicy(name: string, rules: { createHTML(input: string): string }): TrustedTypePolicy } }).trustedTypes;
+    trustedTypesPolicy = factory?.createPolicy(trustedTypes, { createHTML: html => html }) ?? null;
+}
+
+// Parses markup into a container whose child nodes are its top-level nodes. Markup starting with an
+// SVG-only tag is parsed inside an <svg> so that it gets the SVG namespace.
+function namespaceOfTag(tag: string): UltraNamespace | undefined {
+    if (SVG_EXCLUSIVE_TAGS.has(tag)) return 'svg';
+    if (MATHML_EXCLUSIVE_TAGS.has(tag)) return 'mathml';
+    return undefined;
+}
+
+// Namespace of the markup from its root tag. Tags that exist both in HTML and SVG are HTML here;
+// the `namespace` option or the parent's namespace decides otherwise.
+function detectNamespace(markup: string): UltraNamespace {
+    const tag = markup.match(TAG_REGEX)?.[1]?.toLowerCase();
+    if (!tag || AMBIGUOUS_TAGS.has(tag)) return 'html';
+    return namespaceOfTag(tag) ?? 'html';
+}
+
+// Namespace in which markup appended to `element` is parsed; undefined for HTML elements, whose
+// children may still be detected as SVG or MathML.
+function namespaceOf(element: Element): UltraNamespace | undefined {
+    if (element.namespaceURI === SVG_NAMESPACE) {
+        return element.localName === 'foreignObject' ? undefined : 'svg';
+    }
+    if (element.namespaceURI === MATHML_NAMESPACE) {
+        return element.localName === 'annotation-xml' ? undefined : 'mathml';
+    }
+    return undefined;
+}
+
+function toParseOptions(options: Document | UltraParseOptions | undefined): UltraParseOptions {
+    return options && 'nodeType' in options ? { document: options } : options ?? {};
+}
+
+// Parses markup into a container whose child nodes are its top-level nodes. SVG and MathML markup
+// is parsed inside an <svg> or <math> element so that it gets their namespace.
+function parseMarkup(
+    htmlString: string | UltraTrustedHtml,
+    { document = window.document, namespace }: UltraParseOptions
+): Element | DocumentFragment | null {
+    if (isTrustedHtml(htmlString)) {
+        htmlString = htmlString.html;
+    } else if (safeMode) {
+        throw new Error('parseHTMLString: untrusted string refused in safe mode, use ultraSafeHtml or ultraTrusted');
+    }
     const trimmed = htmlString
     .trim()
     .replace(/\n/g, '')
     .replace(/\s{2,}/g, ' ');
     if (!trimmed) return null;
-    const tagMatch = trimmed.match(TAG_REGEX);
-    if (!tagMatch) return null;
-    const tag = (tagMatch[1] as string).toLowerCase();
-    if (SVG_EXCLUSIVE_TAGS.has(tag)) {
-        const temp = document.createElementNS("http://www.w3.org/2000/svg", "svg");
-        temp.innerHTML = trimmed;
-        return temp.firstElementChild;
+    switch (namespace ?? detectNamespace(trimmed)) {
+        case 'svg': {
+            const temp = document.createElementNS(SVG_NAMESPACE, 'svg');
+            setMarkup(temp, trimmed);
+            return temp;
+        }
+        case 'mathml': {
+            const temp = document.createElementNS(MATHML_NAMESPACE, 'math');
+            setMarkup(temp, trimmed);
+            return temp;
+        }
+        default: {
+            const template = document.createElement('template');
+            setMarkup(template, trimmed);
+            return template.content;
+        }
     }
-    const template = document.createElement('template');
-    template.innerHTML = trimmed;
-    return template.content.firstElementChild;
+}
+
+/**
+ * Parses markup into its first element. Anything after it, and markup that does not start with a
+ * tag, is dropped: use {@link parseHTMLFragment} to keep every top-level node. Nodes are returned
+ * as they are.
+ *
+ * SVG and MathML markup is detected from its root tag; tags that also exist in HTML (`a`, `title`,
+ * `image`, `font`, `set`...) are parsed as HTML. Pass `namespace` to choose it explicitly, e.g. for
+ * an SVG `<a>` or `<title>`.
+ * @param htmlString
+ * @param options The document to parse with, or parsing options.
+ * @returns
+ */
+export function parseHTMLString(
+    htmlString: string | UltraTrustedHtml | HTMLElement | Node,
+    options?: Document | UltraParseOptions
+): HTMLElement | Node | null {
+    if (typeof htmlString !== 'string' && !isTrustedHtml(htmlString)) return htmlString;
+    const first = parseMarkup(htmlString, toParseOptions(options))?.firstChild;
+    return first?.nodeType === 1 /* ELEMENT_NODE */ ? first : null;
+}
+
+/**
+ * Parses markup into a `DocumentFragment` holding all of its top-level nodes, text included, for
+ * markup with several roots. Namespaces are handled as in {@link parseHTMLString}.
+ * @param htmlString
+ * @param options The document to parse with, or parsing options.
+ * @returns
+ */
+export function parseHTMLFragment(
+    htmlString: string | UltraTrustedHtml,
+    options?: Document | UltraParseOptions
+): DocumentFragment {
+    const parseOptions = toParseOptions(options);
+    const fragment = (parseOptions.document ?? window.document).createDocumentFragment();
+    const container = parseMarkup(htmlString, parseOptions);
+    if (container) fragment.append(...Array.from(container.childNodes));
+    return fragment;
+}
+
+// Markup becomes a fragment with all its top-level nodes; nodes are kept as they are.
+function parseRenderable(renderable: UltraRenderableElement | Node): Node {
+    return typeof renderable === 'string' || isTrustedHtml(renderable)
+        ? parseHTMLFragment(renderable)
+        : renderable;
 }
 
 function stableHash(str: string): string {
@@ -78,6 +329,75 @@ function stableHash(str: string): string {
     return Math.abs(hash).toString(36);
 }
 
+function defaultEquals(prev: unknown, next: unknown): boolean {
+    return typeof prev !== 'object' && prev === next;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) return false;
+    const proto = Object.getPrototypeOf(value) as unknown;
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Equality helper for `equals` options. Arrays are equal when they have the same length and
+ * identical items; plain objects when they have the same keys with identical values. Anything
+ * else is compared with `Object.is`.
+ * @param a
+ * @param b
+ * @returns
+ */
+export function ultraShallowEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, i) => Object.is(item, b[i]));
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length
+            && keys.every(key => Object.hasOwn(b, key) && Object.is(a[key], b[key]));
+    }
+    return false;
+}
+
+/**
+ * Equality helper for `equals` options. Recursively compares arrays, plain objects, `Date`s,
+ * `Map`s and `Set`s; anything else is compared with `Object.is`. Meant for plain data such as
+ * API payloads, it does not handle circular references.
+ * @param a
+ * @param b
+ * @returns
+ */
+export function ultraDeepEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, i) => ultraDeepEqual(item, b[i]));
+    }
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime();
+    }
+    if (a instanceof Map && b instanceof Map) {
+        if (a.size !== b.size) return false;
+        for (const [key, value] of a) {
+            if (!b.has(key) || !ultraDeepEqual(value, b.get(key))) return false;
+        }
+        return true;
+    }
+    if (a instanceof Set && b instanceof Set) {
+        if (a.size !== b.size) return false;
+        for (const value of a) {
+            if (!b.has(value)) return false;
+        }
+        return true;
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length
+            && keys.every(key => Object.hasOwn(b, key) && ultraDeepEqual(a[key], b[key]));
+    }
+    return false;
+}
+
 function deepFreeze<T>(obj: T): T {
     if (typeof obj !== 'object' || obj === null) return obj;
     Object.keys(obj).forEach(key => deepFreeze((obj as Record<string, unknown>)[key]));
@@ -90,6 +410,157 @@ function registerInScope(unsub: UltraCleanupFunction): void {
     if (activeScope) activeScope.push(unsub);
 }
 
+/**
+ * Runs `fn` with no active scope, for internal subscriptions whose lifetime is owned by
+ * something other than whichever scope happens to be active when they are (re)created.
+ */
+function outsideScope<T>(fn: () => T): T {
+    const prev = activeScope;
+    activeScope = null;
+    try {
+        return fn();
+    } finally {
+        activeScope = prev;
+    }
+}
+
+type UltraTrackedSource = (fn: (value: unknown) => void) => () => void;
+
+let activeTracker: Set<UltraTrackedSource> | null = null;
+
+function trackRead(source: UltraTrackedSource): void {
+    if (activeTracker) activeTracker.add(source);
+}
+
+/**
+ * Runs `fn` and collects the subscribe function of every state getter read synchronously during it.
+ */
+function withTracking<T>(fn: () => T): [T, Set<UltraTrackedSource>] {
+    const prev = activeTracker;
+    const sources = new Set<UltraTrackedSource>();
+    activeTracker = sources;
+    try {
+        return [fn(), sources];
+    } finally {
+        activeTracker = prev;
+    }
+}
+
+/**
+ * Brings `dependencies` in line with the sources tracked by the latest run: subscribes `onChange`
+ * to new sources and unsubscribes from sources that are no longer read.
+ */
+function syncDependencies(
+    dependencies: Map<UltraTrackedSource, () => void>,
+    sources: Set<UltraTrackedSource>,
+    onChange: () => void
+): void {
+    outsideScope(() => {
+        dependencies.forEach((unsubscribe, source) => {
+            if (sources.has(source)) return;
+            unsubscribe();
+            dependencies.delete(source);
+        });
+        sources.forEach(source => {
+            if (dependencies.has(source)) return;
+            dependencies.set(source, source(onChange));
+        });
+    });
+}
+
+let batchDepth = 0;
+let autoBatch = false;
+let flushScheduled = false;
+
+// Keyed by subscriber (or task) identity so that a function notified several times during a
+// batch, even by different states, runs only once when the batch is flushed.
+const pendingNotifications = new Map<unknown, () => void>();
+
+// Dependency handlers of ultraComputed only mark the computed as stale, so they always run
+// synchronously: a computed read in the middle of a batch must already see its sources' changes.
+const derivedObservers = new WeakSet<object>();
+
+function flushPendingNotifications(): void {
+    batchDepth++;
+    try {
+        while (pendingNotifications.size > 0) {
+            const tasks = Array.from(pendingNotifications.values());
+            pendingNotifications.clear();
+            tasks.forEach(task => task());
+        }
+    } finally {
+        batchDepth--;
+    }
+}
+
+function scheduleFlush(): void {
+    if (flushScheduled) return;
+    flushScheduled = true;
+    queueMicrotask(() => {
+        flushScheduled = false;
+        flushPendingNotifications();
+    });
+}
+
+function scheduleNotification(key: unknown, task: () => void): void {
+    if (batchDepth === 0 && !autoBatch) {
+        task();
+        return;
+    }
+    pendingNotifications.set(key, task);
+    if (batchDepth === 0) scheduleFlush();
+}
+
+/**
+ * Notifies every subscriber of a state, deferring the call while a batch is open. Deferred
+ * subscribers read the state's value when the batch is flushed, so they only see the final value,
+ * and are skipped if they unsubscribed in the meantime.
+ *
+ * The notification itself runs as an implicit batch: every dependent computed is marked stale
+ * before any effect or subscriber runs, so none of them sees a mix of old and new derived values.
+ */
+function notifySubscribers<T>(
+    subscribers: Set<(value: T) => void>,
+    read: () => T,
+    errorMessage: string
+): void {
+    batchDepth++;
+    try {
+        notifyEach(subscribers, read, errorMessage);
+    } finally {
+        batchDepth--;
+        if (batchDepth === 0 && pendingNotifications.size > 0) {
+            if (autoBatch) {
+                scheduleFlush();
+            } else {
+                flushPendingNotifications();
+            }
+        }
+    }
+}
+
+function notifyEach<T>(
+    subscribers: Set<(value: T) => void>,
+    read: () => T,
+    errorMessage: string
+): void {
+    subscribers.forEach(fn => {
+        const run = (): void => {
+            if (!subscribers.has(fn)) return;
+            try {
+                fn(read());
+            } catch (error) {
+                console.error(errorMessage, error);
+            }
+        };
+        if (derivedObservers.has(fn)) {
+            run();
+        } else {
+            scheduleNotification(fn, run);
+        }
+    });
+}
+
 /**
  * Runs `fn` inside an implicit owner scope: any `ultraState`/`ultraCompState` subscription
  * made synchronously during `fn`'s execution is auto-registered for disposal, so callers don't
@@ -126,10 +597,11 @@ export function ultraScope<T>(fn: () => T): [T, UltraCleanupFunction] {
  * `subscribe` auto-registers its returned unsubscribe function with the active {@link ultraScope},
  * if any, so callers constructing state inside a scope don't need to manually collect and dispose it.
  * @param initialValue
- * @param freeze Optional parameter to freeze the state object. Default is false.
+ * @param options Either the legacy `freeze` flag or an options object with `freeze` and a custom
+ * `equals(prev, next)` comparator (see {@link ultraShallowEqual} and {@link ultraDeepEqual}).
  * @returns
  */
-export function ultraState<T>(initialValue: T, freeze = false): [
+export function ultraState<T>(initialValue: T, options: boolean | UltraStateOptions<T> = false): [
     () => T,
     (newValue: T) => void,
     (fn: (value: T) => void) => () => void
@@ -138,6 +610,10 @@ export function ultraState<T>(initialValue: T, freeze = false): [
         console.warn('ultraState: initialValue is undefined');
     }
 
+    const { freeze = false, equals = defaultEquals } = typeof options === 'boolean'
+        ? { freeze: options }
+        : options;
+
     const maybeFreeze = (v: T): T =>
         (freeze && typeof v === 'object' && v !== null) ? deepFreeze(v) : v;
 
@@ -146,15 +622,9 @@ export function ultraState<T>(initialValue: T, freeze = false): [
     const subscribers = new Set<(value: T) => void>();
 
     const setValue = (newValue: T): void => {
-        if (typeof value !== 'object' && value === newValue) return;
+        if (equals(value, newValue)) return;
         value = maybeFreeze(newValue);
-        subscribers.forEach(fn => {
-            try {
-                fn(value);
-            } catch (error) {
-                console.error('Error en subscriber de ultraState:', error);
-            }
-        });
+        notifySubscribers(subscribers, () => value, 'Error en subscriber de ultraState:');
     };
 
     const subscribe = (fn: (value: T) => void): (() => void) => {
@@ -164,121 +634,1220 @@ export function ultraState<T>(initialValue: T, freeze = false): [
         return unsubscribe;
     };
 
+    const getValue = (): T => {
+        trackRead(subscribe as UltraTrackedSource);
+        return value;
+    };
+
     return [
-        () => value,
+        getValue,
         setValue,
         subscribe
     ];
 }
 
-export function UltraContext<T>(
+/**
+ * Returns a stateful getter, setter, and subscriber function, like {@link ultraState}, whose value
+ * is persisted under `key` in `localStorage` (or any other `Storage`).
+ *
+ * The state is hydrated from storage on creation and written back on every change. Values
+ * persisted under a different `version` are passed to `migrate`, or discarded without it.
+ * Changes made to the same key in other tabs are picked up through the `storage` event; the
+ * listener is removed when the active {@link ultraScope}, if any, is disposed.
+ * @param key Storage key.
+ * @param initialValue Value used when nothing (valid) is stored.
+ * @param options Storage backend, serialization, versioning, and the usual `ultraState` options.
+ * @returns
+ */
+export function ultraPersistedState<T>(
+    key: string,
     initialValue: T,
-    displayName?: string
-): UltraContextReturn<T> {
-    let owner: UltraLightElement | null = null;
-    let assigned = false;
-    displayName = (!displayName) ? 'context' : displayName;
-    if (initialValue === undefined) {
-        console.warn('UltraContext: initialValue is undefined');
+    {
+        storage,
+        serialize = JSON.stringify,
+        deserialize = (raw: string) => JSON.parse(raw) as UltraPersistedValue<unknown>,
+        version = 0,
+        migrate,
+        ...stateOptions
+    }: UltraPersistedStateOptions<T> = {}
+): [
+    () => T,
+    (newValue: T) => void,
+    (fn: (value: T) => void) => () => void
+] {
+    let backend: Storage | null = storage ?? null;
+    if (!backend) {
+        try {
+            backend = window.localStorage;
+        } catch (error) {
+            console.warn('ultraPersistedState: storage is not available, the state will not be persisted.', error);
+        }
     }
-    let value = initialValue;
-    const subscribers = new Set<(value: T) => void>();
-    function canReach(
-        candidate?: UltraLightElement
-    ): boolean {
-        if (!owner) return true;
-        if (!candidate) return false;
-        if (!owner?.contains(candidate)) {
-            console.warn('UltraContext: unreachable context');
-            return false;
-        }else{
-            return true;
+
+    const write = (value: T): void => {
+        try {
+            backend?.setItem(key, serialize({ value, version }));
+        } catch (error) {
+            console.error(`ultraPersistedState: could not persist "${key}":`, error);
         }
     };
-    function getValue(
-        candidate?: UltraLightElement
-    ): T{
-        if (!canReach(candidate)) return "undefined" as T;
-        return value;
-    }
-    function setValue(
-        newValue: T,
-        candidate?: UltraLightElement,
-    ): void {
-        if (!canReach(candidate)) return;
-        if (typeof value !== 'object' && value === newValue) return;
-        value = newValue;
-        subscribers.forEach(fn => {
-            try {
-                fn(value);
-            } catch (error) {
-                console.error('UltraContext: error in subscriber:', error);
+
+    // Returns the stored value, or initialValue if there is none or it cannot be used.
+    const read = (raw: string | null): { value: T; migrated: boolean } => {
+        if (raw === null) return { value: initialValue, migrated: false };
+        try {
+            const persisted = deserialize(raw);
+            if (persisted.version === version) {
+                return { value: persisted.value as T, migrated: false };
             }
-        });
-    };
-    function subscribe(
-        fn: (value: T) => void,
-        candidate?: UltraLightElement,
-    ): (() => void){
-        if (!canReach(candidate)) return () => {};
-        subscribers.add(fn);
-        return () => subscribers.delete(fn);
-    };
-    function own(
-        newOwner: UltraLightElement
-    ): void {
-        if (assigned) {
-            throw new Error(
-                `UltraContext: context owner for "${displayName}" cannot be reassigned.\n`
-                + `Current owner: ${owner?.tagName || 'null'}.`
-            );
+            if (migrate) {
+                return { value: migrate(persisted.value, persisted.version), migrated: true };
+            }
+            console.warn(`ultraPersistedState: discarding "${key}" persisted with version ${persisted.version}, expected ${version}.`);
+        } catch (error) {
+            console.error(`ultraPersistedState: could not restore "${key}":`, error);
         }
-        owner = newOwner;
-        assigned = true;
-    };
-    return {
-        set: setValue,
-        get: getValue,
-        subscribe,
-        own
+        return { value: initialValue, migrated: false };
     };
-}
-
-export function ultraQueryParams(): Record<string, string> {
-    const urlData = new URLSearchParams(window.location.search);
-    const params: Record<string, string> = {};
-    urlData.forEach((value, key) => {
-        params[key] = value;
-    });
-    return params;
-}
 
-function matchRoute(routePath: string, currentPath: string): UltraRouteMatch {
-    if (routePath === currentPath) {
-        return { params: {}, matched: true };
+    let hydrated: { value: T; migrated: boolean } = { value: initialValue, migrated: false };
+    try {
+        hydrated = read(backend?.getItem(key) ?? null);
+    } catch (error) {
+        console.error(`ultraPersistedState: could not read "${key}":`, error);
     }
 
-    if (routePath === '/*') {
-        return { params: {}, matched: true, isWildcard: true };
-    }
+    const [getValue, setValue, subscribe] = ultraState(hydrated.value, stateOptions);
+    if (hydrated.migrated) write(hydrated.value);
 
-    const routeParts = routePath.split('/').filter(p => p);
-    const pathParts = currentPath.split('/').filter(p => p);
+    // Untracked copy of the value, so that setting it from an effect or computed doesn't subscribe
+    // them to it. Compared with the state's own `equals` to decide whether to write.
+    const { equals = defaultEquals } = stateOptions;
+    let current = hydrated.value;
 
-    if (routeParts.length !== pathParts.length) {
+    const setPersistedValue = (newValue: T): void => {
+        if (equals(current, newValue)) return;
+        current = newValue;
+        setValue(newValue);
+        write(newValue);
+    };
+
+    const onStorage = (e: StorageEvent): void => {
+        // A null key means the whole storage was cleared.
+        if (e.storageArea !== backend || (e.key !== null && e.key !== key)) return;
+        current = read(e.newValue).value;
+        setValue(current);
+    };
+
+    if (backend && typeof window !== 'undefined') {
+        window.addEventListener('storage', onStorage);
+        registerInScope(() => window.removeEventListener('storage', onStorage));
+    }
+
+    return [
+        getValue,
+        setPersistedValue,
+        subscribe
+    ];
+}
+
+/**
+ * Returns a derived getter and subscriber whose value is computed from other states.
+ *
+ * Every `ultraState`/`ultraCompState` getter (or other computed getter) read while `fn` runs is
+ * tracked as a dependency. When one of them changes, the value is marked stale and recomputed on
+ * the next read; if the computed has subscribers it is recomputed right away instead, and they are
+ * notified only when the result actually changed.
+ *
+ * The computed registers its disposal with the active {@link ultraScope}, if any, releasing its
+ * dependency subscriptions along with the scope. `subscribe` auto-registers the same way as
+ * `ultraState`'s.
+ * @param fn Function deriving the value from other states. It should be free of side effects.
+ * @param options Optional `equals(prev, next)` comparator deciding whether subscribers are notified.
+ * @returns
+ */
+export function ultraComputed<T>(
+    fn: () => T,
+    { equals = defaultEquals }: Pick<UltraStateOptions<T>, 'equals'> = {}
+): [
+    () => T,
+    (fn: (value: T) => void) => () => void
+] {
+    let value: T;
+    let notifiedValue: T;
+    let dirty = true;
+    let disposed = false;
+
+    const dependencies = new Map<UltraTrackedSource, () => void>();
+    const subscribers = new Set<(value: T) => void>();
+
+    const recompute = (): void => {
+        const [next, sources] = outsideScope(() => withTracking(fn));
+        value = next;
+        dirty = false;
+        if (!disposed) syncDependencies(dependencies, sources, onDependencyChange);
+    };
+
+    const notifyIfChanged = (): void => {
+        if (subscribers.size === 0) return;
+        try {
+            if (dirty) recompute();
+        } catch (error) {
+            console.error('ultraComputed: error while recomputing:', error);
+            return;
+        }
+        if (equals(notifiedValue, value)) return;
+        notifiedValue = value;
+        notifySubscribers(subscribers, () => value, 'ultraComputed: error in subscriber:');
+    };
+
+    const onDependencyChange = (): void => {
+        if (dirty) return;
+        dirty = true;
+        // Downstream computeds become stale right away; everyone else waits for the recompute.
+        subscribers.forEach(fn => {
+            if (derivedObservers.has(fn)) fn(value);
+        });
+        if (subscribers.size > 0) scheduleNotification(notifyIfChanged, notifyIfChanged);
+    };
+    derivedObservers.add(onDependencyChange);
+
+    const subscribe = (fn: (value: T) => void): (() => void) => {
+        if (dirty) recompute();
+        if (subscribers.size === 0) notifiedValue = value;
+        subscribers.add(fn);
+        const unsubscribe = (): void => { subscribers.delete(fn); };
+        registerInScope(unsubscribe);
+        return unsubscribe;
+    };
+
+    const getValue = (): T => {
+        trackRead(subscribe as UltraTrackedSource);
+        if (dirty || disposed) recompute();
+        return value;
+    };
+
+    registerInScope(() => {
+        disposed = true;
+        dependencies.forEach(unsubscribe => unsubscribe());
+        dependencies.clear();
+        subscribers.clear();
+    });
+
+    return [
+        getValue,
+        subscribe
+    ];
+}
+
+/**
+ * Runs `fn` immediately and again whenever any `ultraState`/`ultraCompState` getter (or computed
+ * getter) it read during its previous run changes. Dependencies are tracked anew on every run.
+ *
+ * `fn` may return a cleanup function, which runs before the next run and when the effect is
+ * disposed. Each run also executes inside its own {@link ultraScope}, so subscriptions made by
+ * `fn` are released before it re-runs. The effect registers its disposal with the active
+ * `ultraScope`, if any, just like `ultraState`'s `subscribe`.
+ *
+ * State updates made by `fn` itself do not re-trigger the run in progress.
+ * @param fn Side effect to run. May return a cleanup function.
+ * @returns A disposer that stops the effect and runs its pending cleanup.
+ */
+export function ultraEffect(fn: () => void | UltraCleanupFunction): UltraCleanupFunction {
+    let cleanup: void | UltraCleanupFunction;
+    let disposeRun: UltraCleanupFunction | null = null;
+    let running = false;
+    let disposed = false;
+
+    const dependencies = new Map<UltraTrackedSource, () => void>();
+
+    const runCleanup = (): void => {
+        try {
+            cleanup?.();
+        } catch (error) {
+            console.error('ultraEffect: error in cleanup:', error);
+        }
+        cleanup = undefined;
+        disposeRun?.();
+        disposeRun = null;
+    };
+
+    const run = (): void => {
+        if (disposed || running) return;
+        running = true;
+        // A run that is itself being flushed defers the notifications it causes; those coming
+        // from its own updates must not queue it again.
+        const alreadyPending = pendingNotifications.has(run);
+        try {
+            runCleanup();
+            const [[result, sources], dispose] = ultraScope(() => withTracking(fn));
+            cleanup = result;
+            disposeRun = dispose;
+            syncDependencies(dependencies, sources, run);
+        } catch (error) {
+            console.error('ultraEffect: error while running effect:', error);
+        } finally {
+            running = false;
+            if (!alreadyPending) pendingNotifications.delete(run);
+        }
+    };
+
+    const dispose = (): void => {
+        if (disposed) return;
+        disposed = true;
+        dependencies.forEach(unsubscribe => unsubscribe());
+        dependencies.clear();
+        runCleanup();
+    };
+
+    run();
+    registerInScope(dispose);
+
+    return dispose;
+}
+
+/**
+ * Runs `fn` as a batch: subscriber notifications caused by `ultraState`, `ultraCompState` or
+ * `UltraContext` setters inside it are deferred until the outermost batch ends. Each subscriber
+ * is then notified at most once, with the state's final value, even if it subscribed to several
+ * of the states that changed.
+ *
+ * Getters are not deferred: reading a state (or a computed derived from it) inside the batch
+ * already returns the new value.
+ * @param fn Function whose state updates should be batched. Its return value is passed through unchanged.
+ * @returns
+ */
+export function ultraBatch<T>(fn: () => T): T {
+    batchDepth++;
+    try {
+        return fn();
+    } finally {
+        batchDepth--;
+        if (batchDepth === 0) flushPendingNotifications();
+    }
+}
+
+/**
+ * Enables or disables automatic batching. While enabled, notifications caused outside of an
+ * explicit {@link ultraBatch} are collected and flushed in a microtask, so every state update made
+ * in the same synchronous task notifies each subscriber once. Disabled by default.
+ * @param enabled
+ */
+export function ultraAutoBatch(enabled = true): void {
+    autoBatch = enabled;
+}
+
+export function UltraContext<T>(
+    initialValue: T,
+    displayName?: string
+): UltraContextReturn<T> {
+    let owner: UltraLightElement | null = null;
+    let assigned = false;
+    displayName = (!displayName) ? 'context' : displayName;
+    if (initialValue === undefined) {
+        console.warn('UltraContext: initialValue is undefined');
+    }
+    let value = initialValue;
+    const subscribers = new Set<(value: T) => void>();
+    function canReach(
+        candidate?: UltraLightElement
+    ): boolean {
+        if (!owner) return true;
+        if (!candidate) return false;
+        if (!owner?.contains(candidate)) {
+            console.warn('UltraContext: unreachable context');
+            return false;
+        }else{
+            return true;
+        }
+    };
+    function getValue(
+        candidate?: UltraLightElement
+    ): T{
+        if (!canReach(candidate)) return "undefined" as T;
+        return value;
+    }
+    function setValue(
+        newValue: T,
+        candidate?: UltraLightElement,
+    ): void {
+        if (!canReach(candidate)) return;
+        if (typeof value !== 'object' && value === newValue) return;
+        value = newValue;
+        notifySubscribers(subscribers, () => value, 'UltraContext: error in subscriber:');
+    };
+    function subscribe(
+        fn: (value: T) => void,
+        candidate?: UltraLightElement,
+    ): (() => void){
+        if (!canReach(candidate)) return () => {};
+        subscribers.add(fn);
+        return () => subscribers.delete(fn);
+    };
+    function own(
+        newOwner: UltraLightElement
+    ): void {
+        if (assigned) {
+            throw new Error(
+                `UltraContext: context owner for "${displayName}" cannot be reassigned.\n`
+                + `Current owner: ${owner?.tagName || 'null'}.`
+            );
+        }
+        owner = newOwner;
+        assigned = true;
+    };
+    return {
+        set: setValue,
+        get: getValue,
+        subscribe,
+        own
+    };
+}
+
+type UltraPath = Pick<UltraHistoryLocation, 'pathname' | 'search' | 'hash'>;
+
+function parseHref(href: string, base = '/'): UltraPath {
+    const url = new URL(href, new URL(base, 'http://localhost'));
+    return { pathname: url.pathname, search: url.search, hash: url.hash };
+}
+
+function formatLocation({ pathname, search, hash }: UltraPath): string {
+    return `${pathname}${search}${hash}`;
+}
+
+function trimTrailingSlash(pathname: string): string {
+    return pathname.length > 1 ? pathname.replace(/\/+$/, '') || '/' : pathname;
+}
+
+function createHistoryKey(): string {
+    return Math.random().toString(36).slice(2, 10);
+}
+
+// What the browser and hash histories store in `window.history.state`: the entry key and index
+// next to the caller's state.
+interface UltraHistoryEntry {
+    key: string;
+    index: number;
+    state: unknown;
+}
+
+function isHistoryEntry(value: unknown): value is UltraHistoryEntry {
+    return typeof value === 'object' && value !== null
+        && typeof (value as Partial<UltraHistoryEntry>).key === 'string'
+        && typeof (value as Partial<UltraHistoryEntry>).index === 'number' && 'state' in value;
+}
+
+function readWindowEntry(path: UltraPath): UltraHistoryLocation {
+    const entry = window.history.state as unknown;
+    // Entries pushed without a history (e.g. by the browser on load) are keyed by their URL, and
+    // are the first of the app's entries until they are stamped.
+    return isHistoryEntry(entry)
+        ? { ...path, key: entry.key, index: entry.index, state: entry.state }
+        : { ...path, key: formatLocation(path), index: 0, state: entry };
+}
+
+// Reads the window entries of the browser and hash histories. The browser adds entries of its own
+// (fragment links, hashes typed in the address bar), without a key or index: listening stamps the
+// entry the app starts on, and each new one as the entry after the last one read.
+function windowEntries(readPath: () => UltraPath): Pick<UltraHistory, 'listen'> & { read: () => UltraHistoryLocation } {
+    let lastIndex = 0;
+    const read = (): UltraHistoryLocation => {
+        const location = readWindowEntry(readPath());
+        lastIndex = location.index;
+        return location;
+    };
+    const stamp = (key: string, index: number): void => {
+        const entry = window.history.state as unknown;
+        if (isHistoryEntry(entry)) return;
+        const stamped: UltraHistoryEntry = { key, index, state: entry ?? null };
+        window.history.replaceState(stamped, '');
+    };
+    return {
+        read,
+        listen(listener) {
+            const { key, index } = read();
+            stamp(key, index);
+            const onPopState = (): void => {
+                stamp(createHistoryKey(), lastIndex + 1);
+                listener();
+            };
+            window.addEventListener('popstate', onPopState);
+            return () => window.removeEventListener('popstate', onPopState);
+        }
+    };
+}
+
+function writeWindowEntry(method: 'pushState' | 'replaceState', url: string, entry: UltraHistoryEntry): void {
+    window.history[method](entry, '', url);
+    window.dispatchEvent(new window.PopStateEvent('popstate', { state: entry }));
+}
+
+/**
+ * Returns a history backed by the browser's URL and History API. `push` and `replace` dispatch a
+ * `popstate` event so every router (and any other `popstate` listener) sees the change.
+ * @returns
+ */
+export function ultraBrowserHistory(): UltraHistory {
+    const { read, listen } = windowEntries(() => {
+        const { pathname, search, hash } = window.location;
+        return { pathname, search, hash };
+    });
+    return {
+        mode: 'browser',
+        get location() {
+            return read();
+        },
+        push: (href, state = null) => writeWindowEntry('pushState', href, {
+            key: createHistoryKey(), index: read().index + 1, state
+        }),
+        replace: (href, state = null) => writeWindowEntry('replaceState', href, {
+            key: read().key, index: read().index, state
+        }),
+        go: (delta) => window.history.go(delta),
+        listen,
+        createHref: (href) => href
+    };
+}
+
+/**
+ * Returns a history that keeps the app path in the URL fragment (`/#/users/1?tab=posts`), for
+ * static hosts that can't rewrite every path to the app's entry point.
+ * @returns
+ */
+export function ultraHashHistory(): UltraHistory {
+    const { read, listen } = windowEntries(() => parseHref(window.location.hash.slice(1) || '/'));
+    const toUrl = (href: string): string => `#${formatLocation(parseHref(href, read().pathname))}`;
+    return {
+        mode: 'hash',
+        get location() {
+            return read();
+        },
+        push: (href, state = null) => writeWindowEntry('pushState', toUrl(href), {
+            key: createHistoryKey(), index: read().index + 1, state
+        }),
+        replace: (href, state = null) => writeWindowEntry('replaceState', toUrl(href), {
+            key: read().key, index: read().index, state
+        }),
+        go: (delta) => window.history.go(delta),
+        listen,
+        createHref: (href) => `#${href}`
+    };
+}
+
+/**
+ * Returns a history that lives entirely in memory and never touches the page URL, for tests and
+ * embedded widgets.
+ * @param initialEntries Initial history entries. Default is `['/']`.
+ * @param initialIndex Index of the current entry. Default is the last one.
+ * @returns
+ */
+export function ultraMemoryHistory(
+    initialEntries: string[] = ['/'],
+    initialIndex = initialEntries.length - 1
+): UltraHistory {
+    const entries: UltraHistoryLocation[] = (initialEntries.length ? initialEntries : ['/'])
+        .map((href, i) => ({ ...parseHref(href), key: createHistoryKey(), index: i, state: null }));
+    let index = Math.min(Math.max(initialIndex, 0), entries.length - 1);
+    const listeners = new Set<() => void>();
+    const notify = (): void => listeners.forEach(listener => listener());
+    return {
+        mode: 'memory',
+        get location() {
+            return entries[index]!;
+        },
+        push(href, state = null) {
+            const entry = { ...parseHref(href, entries[index]!.pathname), key: createHistoryKey(), index: index + 1, state };
+            entries.splice(index + 1, entries.length, entry);
+            index++;
+            notify();
+        },
+        replace(href, state = null) {
+            entries[index] = { ...parseHref(href, entries[index]!.pathname), key: entries[index]!.key, index, state };
+            notify();
+        },
+        go(delta) {
+            const next = Math.min(Math.max(index + delta, 0), entries.length - 1);
+            if (next === index) return;
+            index = next;
+            notify();
+        },
+        listen(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        createHref: (href) => href
+    };
+}
+
+function createHistory(mode: UltraHistoryMode): UltraHistory {
+    if (mode === 'hash') return ultraHashHistory();
+    if (mode === 'memory') return ultraMemoryHistory();
+    return ultraBrowserHistory();
+}
+
+// Wraps `history` so that its locations are relative to `basePath` and absolute paths pushed to
+// it are prefixed with it. Paths outside `basePath` are left as they are.
+function withBasePath(history: UltraHistory, basePath: string): UltraHistory {
+    const base = trimTrailingSlash(basePath.startsWith('/') ? basePath : `/${basePath}`);
+    if (base === '/') return history;
+    const toUrl = (href: string): string => {
+        if (!href.startsWith('/')) return href;
+        return href === '/' ? base : `${base}${href}`;
+    };
+    return {
+        mode: history.mode,
+        get location() {
+            const location = history.location;
+            const { pathname } = location;
+            if (pathname !== base && !pathname.startsWith(`${base}/`)) return location;
+            return { ...location, pathname: pathname.slice(base.length) || '/' };
+        },
+        push: (href, state) => history.push(toUrl(href), state),
+        replace: (href, state) => history.replace(toUrl(href), state),
+        go: (delta) => history.go(delta),
+        listen: (listener) => history.listen(listener),
+        createHref: (href) => history.createHref(toUrl(href))
+    };
+}
+
+// History used by UltraLink, ultraNavigate and ultraQueryParams: the one of the most recently
+// created router that is still mounted, or the browser's.
+let activeHistory: UltraHistory = ultraBrowserHistory();
+
+// Notified when the active history changes, so that links built before their router (or outliving
+// it) can update their `href`.
+const activeHistoryListeners = new Set<() => void>();
+
+function setActiveHistory(history: UltraHistory): void {
+    if (history === activeHistory) return;
+    activeHistory = history;
+    activeHistoryListeners.forEach(listener => {
+        try {
+            listener();
+        } catch (error) {
+            console.error('Error while switching the active history:', error);
+        }
+    });
+}
+
+// Histories whose router restores the scroll position itself; navigating through any other one
+// scrolls to the top.
+const scrollManagedHistories = new Set<UltraHistory>();
+
+function scrollToTopUnmanaged(): void {
+    if (activeHistory.mode !== 'memory' && !scrollManagedHistories.has(activeHistory)) {
+        window.scrollTo({ top: 0, behavior: 'instant' });
+    }
+}
+
+interface UltraBlocker {
+    shouldBlock: (navigation: UltraBlockedNavigation) => boolean;
+    confirm: (navigation: UltraBlockedNavigation) => boolean | Promise<boolean>;
+    pending: boolean;
+}
+
+const blockers = new Set<UltraBlocker>();
+
+// Set while UltraLink/ultraNavigate push a navigation the blockers already allowed, so the router
+// doesn't submit it to them again.
+let allowedNavigation = false;
+
+// Returns whether `navigation` may proceed; asynchronously when a blocker asks for confirmation.
+// Navigations attempted while a confirmation is pending are cancelled.
+function checkBlockers(navigation: UltraBlockedNavigation): boolean | Promise<boolean> {
+    for (const blocker of blockers) {
+        if (blocker.pending) return false;
+        if (!blocker.shouldBlock(navigation)) continue;
+        let result: boolean | Promise<boolean>;
+        try {
+            result = blocker.confirm(navigation);
+        } catch (error) {
+            console.error('ultraBlocker: confirm error:', error);
+            return false;
+        }
+        if (typeof result === 'boolean') return result;
+        blocker.pending = true;
+        return result.then(Boolean, (error: unknown) => {
+            console.error('ultraBlocker: confirm error:', error);
+            return false;
+        }).finally(() => {
+            blocker.pending = false;
+        });
+    }
+    return true;
+}
+
+function unlessBlocked(href: string, proceed: () => void): void {
+    const result = checkBlockers({ action: 'push', from: formatLocation(activeHistory.location), to: href });
+    if (result === true) {
+        proceed();
+    } else if (result !== false) {
+        void result.then(allowed => {
+            if (allowed) proceed();
+        });
+    }
+}
+
+function pushAllowed(href: string, replace = false, state?: unknown): void {
+    allowedNavigation = true;
+    try {
+        if (replace) {
+            activeHistory.replace(href, state);
+        } else {
+            activeHistory.push(href, state);
+        }
+    } finally {
+        allowedNavigation = false;
+    }
+}
+
+// Resolves `href` against `routePath` (the current path by default): `edit` and `../edit` are
+// relative to it taken as a directory (`/users/1/view` -> `/users/1/view/edit`, `/users/1/edit`),
+// while `?query` and `#hash` only replace those parts of the current location.
+function resolveHref(href: string, routePath?: string | null): string {
+    if (href.startsWith('/')) return href;
+    const isQueryOrHash = /^[?#]/.test(href);
+    const pathname = (!isQueryOrHash && routePath) || activeHistory.location.pathname;
+    const base = isQueryOrHash || pathname.endsWith('/') ? pathname : `${pathname}/`;
+    return formatLocation(parseHref(href, base));
+}
+
+// Pathname matched by the route level being rendered, against which UltraLink resolves relative
+// hrefs: a link rendered by a layout stays relative to the layout wherever its children lead.
+let renderingRoutePath: string | null = null;
+
+function withRoutePath<T>(pathname: string, render: () => T): T {
+    const previous = renderingRoutePath;
+    renderingRoutePath = pathname;
+    try {
+        return render();
+    } finally {
+        renderingRoutePath = previous;
+    }
+}
+
+/**
+ * Blocks navigations while `shouldBlock` returns true, e.g. to protect unsaved changes.
+ * `UltraLink` clicks and `ultraNavigate` calls wait for `confirm` before navigating. Back/Forward
+ * is cancelled by the active router, which restores the URL and navigates once `confirm` resolves
+ * to true. Leaving the document triggers the browser's own `beforeunload` prompt.
+ *
+ * The blocker registers its disposal with the active {@link ultraScope}, if any.
+ * @param shouldBlock Returns whether the given navigation must be confirmed.
+ * @param options Custom (possibly asynchronous) confirmation.
+ * @returns A disposer that removes the blocker.
+ */
+export function ultraBlocker(
+    shouldBlock: (navigation: UltraBlockedNavigation) => boolean,
+    options: UltraBlockerOptions = {}
+): () => void {
+    const blocker: UltraBlocker = {
+        shouldBlock,
+        confirm: options.confirm
+            ?? (() => window.confirm('Leave this page? Changes you made may not be saved.')),
+        pending: false
+    };
+    blockers.add(blocker);
+
+    const beforeUnloadHandler = (e: BeforeUnloadEvent): void => {
+        if (!shouldBlock({ action: 'unload', from: formatLocation(activeHistory.location), to: null })) return;
+        e.preventDefault();
+        e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', beforeUnloadHandler);
+
+    const dispose = (): void => {
+        blockers.delete(blocker);
+        window.removeEventListener('beforeunload', beforeUnloadHandler);
+    };
+    registerInScope(dispose);
+    return dispose;
+}
+
+function findHashTarget(hash: string): HTMLElement | null {
+    if (hash.length < 2) return null;
+    let id = hash.slice(1);
+    try {
+        id = decodeURIComponent(id);
+    } catch {
+        // Keep the raw fragment when it isn't valid percent-encoding.
+    }
+    return document.getElementById(id);
+}
+
+function readQuery(search: string): Record<string, string> {
+    const urlData = new URLSearchParams(search);
+    const params: Record<string, string> = {};
+    urlData.forEach((value, key) => {
+        params[key] = value;
+    });
+    return params;
+}
+
+export function ultraQueryParams(): Record<string, string> {
+    return readQuery(activeHistory.location.search);
+}
+
+// Set while ultraRoute's query setter rewrites the URL: routers pick up the new query without
+// treating the change as a navigation.
+let updatingQuery = false;
+
+interface UltraRouteStore {
+    search: ReturnType<typeof ultraState<string>>;
+    pathname: ReturnType<typeof ultraState<string>>;
+    params: ReturnType<typeof ultraState<Record<string, string>>>;
+    query: ReturnType<typeof ultraState<Record<string, string>>>;
+    hash: ReturnType<typeof ultraState<string>>;
+    state: ReturnType<typeof ultraState<unknown>>;
+}
+
+let routeStore: UltraRouteStore | null = null;
+
+function getRouteStore(): UltraRouteStore {
+    if (!routeStore) {
+        const { pathname, search, hash, state } = activeHistory.location;
+        routeStore = {
+            search: ultraState(search),
+            pathname: ultraState(pathname),
+            params: ultraState<Record<string, string>>({}, { equals: ultraShallowEqual }),
+            query: ultraState(readQuery(search), { equals: ultraShallowEqual }),
+            hash: ultraState(hash),
+            state: ultraState(state)
+        };
+    }
+    return routeStore;
+}
+
+// Writes a new query string to the active history without the routers treating it as a
+// navigation, and publishes it to ultraRoute/ultraQueryState.
+function writeSearch(search: string, method: 'push' | 'replace'): void {
+    const { pathname, hash, state } = activeHistory.location;
+    const href = `${pathname}${search ? `?${search}` : ''}${hash}`;
+    updatingQuery = true;
+    try {
+        if (method === 'push') {
+            activeHistory.push(href);
+        } else {
+            activeHistory.replace(href, state);
+        }
+    } finally {
+        updatingQuery = false;
+    }
+    const store = getRouteStore();
+    const written = activeHistory.location.search;
+    ultraBatch(() => {
+        store.search[1](written);
+        store.query[1](readQuery(written));
+    });
+}
+
+function publishRoute(location: UltraRouteLocation, { search, hash }: UltraHistoryLocation): void {
+    const store = getRouteStore();
+    ultraBatch(() => {
+        store.search[1](search);
+        store.pathname[1](location.pathname);
+        store.params[1](location.params);
+        store.query[1](location.query);
+        store.hash[1](hash);
+        store.state[1](location.state);
+    });
+}
+
+/**
+ * Returns the current route as reactive fields, each with `get` and `subscribe` like the fields of
+ * {@link ultraCompState}. They update whenever the active router (the one whose history
+ * {@link UltraLink} uses) commits a navigation, so components outside the router can follow the pathname, the params of the matched route, the query and the hash.
+ *
+ * `query.set` writes the given params to the URL with `replaceState`; the mounted route is not
+ * re-rendered and no history entry is added.
+ * @returns
+ */
+export function ultraRoute(): UltraRouteState {
+    const store = getRouteStore();
+    const field = <T>([get, , subscribe]: ReturnType<typeof ultraState<T>>) => ({ get, subscribe });
+    const setQuery = (query: Record<string, string>): void => {
+        try {
+            writeSearch(new URLSearchParams(query).toString(), 'replace');
+        } catch (error) {
+            console.error('ultraRoute: error while updating the query:', error);
+        }
+    };
+    return {
+        pathname: field(store.pathname),
+        params: field(store.params),
+        query: { ...field(store.query), set: setQuery },
+        hash: field(store.hash),
+        state: field(store.state)
+    };
+}
+
+function parseQueryField(field: UltraQueryField, values: string[]): unknown {
+    const fallback = field.default ?? (field.type === 'array' ? [] : null);
+    if (field.type === 'array') return values.length ? values : fallback;
+    const raw = values[values.length - 1];
+    if (raw === undefined) return fallback;
+    switch (field.type) {
+        case 'number': {
+            const value = raw.trim() === '' ? NaN : Number(raw);
+            return Number.isNaN(value) ? fallback : value;
+        }
+        case 'boolean':
+            if (raw === 'true' || raw === '1') return true;
+            if (raw === 'false' || raw === '0') return false;
+            return fallback;
+        case 'date': {
+            const value = parseQueryDate(raw);
+            return Number.isNaN(value.getTime()) ? fallback : value;
+        }
+        case 'enum':
+            return field.values.includes(raw) ? raw : fallback;
+        default:
+            return raw;
+    }
+}
+
+const DATE_ONLY_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// `YYYY-MM-DD` is a calendar day, read as local midnight (`new Date` would read it as UTC midnight,
+// the previous day west of Greenwich). Other values, with a time, are parsed as they are.
+function parseQueryDate(raw: string): Date {
+    const match = DATE_ONLY_REGEX.exec(raw);
+    if (!match) return new Date(raw);
+    const [year, month, day] = match.slice(1).map(Number) as [number, number, number];
+    const value = new Date(year, month - 1, day);
+    return value.getMonth() === month - 1 && value.getDate() === day ? value : new Date(NaN);
+}
+
+function formatQueryDate(value: Date): string {
+    const pad = (part: number) => String(part).padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+function serializeQueryField(field: UltraQueryField, value: unknown): string[] {
+    if (value === null || value === undefined || queryFieldEquals(value, field.default)) return [];
+    if (Array.isArray(value)) return value.map(String);
+    if (value instanceof Date) {
+        if (Number.isNaN(value.getTime())) return [];
+        return [field.type === 'date' && field.time ? value.toISOString() : formatQueryDate(value)];
+    }
+    return [String(value as string | number | boolean)];
+}
+
+function queryFieldEquals(a: unknown, b: unknown): boolean {
+    if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+    if (Array.isArray(a) && Array.isArray(b)) return ultraShallowEqual(a, b);
+    return a === b;
+}
+
+/**
+ * Returns typed query params as fields with `get`, `set` and `subscribe`, like the fields of
+ * {@link ultraCompState}. Each key of `schema` describes how its param is parsed: numbers,
+ * booleans (`true`/`false` or `1`/`0`), dates, enums of allowed values, or string arrays read from
+ * repeated keys (`?tag=a&tag=b`). Missing or invalid values fall back to the field's `default`,
+ * or to `null` (`[]` for arrays).
+ *
+ * `set` writes the param back to the URL, omitting it when it equals the default, with
+ * `replaceState` or, with `navigation: 'push'`, as a new history entry. The mounted route is not
+ * re-rendered. Fields follow the URL when the router navigates, e.g. on back and forward.
+ * @param schema Param name to field description.
+ * @param options `navigation: 'replace' | 'push'`. Default is 'replace'.
+ * @returns
+ */
+export function ultraQueryState<const S extends UltraQuerySchema>(
+    schema: S,
+    options: UltraQueryStateOptions = {}
+): UltraQueryStateResult<S> {
+    const { navigation = 'replace' } = options;
+    const store = getRouteStore();
+    const read = (key: string, field: UltraQueryField): unknown =>
+        parseQueryField(field, new URLSearchParams(store.search[0]()).getAll(key));
+
+    const result: Record<string, IUltraCompStateStateful<unknown>> = {};
+    Object.entries(schema).forEach(([key, field]) => {
+        const [get, set, subscribe] = ultraState(read(key, field), { equals: queryFieldEquals });
+        store.search[2](() => set(read(key, field)));
+        result[key] = {
+            get,
+            set: (value: unknown) => {
+                const params = new URLSearchParams(activeHistory.location.search);
+                params.delete(key);
+                serializeQueryField(field, value).forEach(item => params.append(key, item));
+                try {
+                    writeSearch(params.toString(), navigation);
+                } catch (error) {
+                    console.error('ultraQueryState: error while updating the query:', error);
+                }
+            },
+            subscribe
+        };
+    });
+    return result as UltraQueryStateResult<S>;
+}
+
+function isWildcardPath(routePath: string): boolean {
+    return routePath === '/*' || routePath === '*';
+}
+
+type UltraRouteSegment =
+    | { type: 'static'; value: string }
+    | { type: 'param'; name: string; optional: boolean; pattern: RegExp | null }
+    | { type: 'splat'; name: string };
+
+const PARAM_SEGMENT_REGEX = /^:([A-Za-z_$][\w$]*)(?:\((.+)\))?(\?)?$/;
+const SPLAT_SEGMENT_REGEX = /^\*([A-Za-z_$][\w$]*)?$/;
+
+const compiledRoutePaths = new Map<string, UltraRouteSegment[]>();
+
+/**
+ * Splits a route path into its segments: literals, `:param`, `:param?` (optional),
+ * `:param(regex)` (constrained) and a trailing `*name` splat. Results are cached per path.
+ */
+function compileRoutePath(routePath: string): UltraRouteSegment[] {
+    let segments = compiledRoutePaths.get(routePath);
+    if (segments) return segments;
+    segments = routePath.split('/').filter(p => p).map((part, i, parts): UltraRouteSegment => {
+        const param = part.match(PARAM_SEGMENT_REGEX);
+        if (param) {
+            return {
+                type: 'param',
+                name: param[1]!,
+                optional: !!param[3],
+                pattern: param[2] ? new RegExp(`^(?:${param[2]})$`) : null
+            };
+        }
+        const splat = part.match(SPLAT_SEGMENT_REGEX);
+        if (splat && i === parts.length - 1) {
+            return { type: 'splat', name: splat[1] ?? '*' };
+        }
+        return { type: 'static', value: part };
+    });
+    compiledRoutePaths.set(routePath, segments);
+    return segments;
+}
+
+function decodePathSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+/**
+ * Matches path segments against route segments, backtracking over optional params. Returns the
+ * params and the number of path segments consumed, or null.
+ */
+function matchSegments(
+    segments: UltraRouteSegment[],
+    parts: string[],
+    prefix: boolean,
+    si = 0,
+    pi = 0,
+    params: Record<string, string> = {}
+): [Record<string, string>, number] | null {
+    if (si === segments.length) {
+        return (prefix || pi === parts.length) ? [params, pi] : null;
+    }
+    const segment = segments[si]!;
+    if (segment.type === 'splat') {
+        return [{ ...params, [segment.name]: parts.slice(pi).map(decodePathSegment).join('/') }, parts.length];
+    }
+    const part = pi < parts.length ? decodePathSegment(parts[pi]!) : undefined;
+    if (segment.type === 'static') {
+        return part === segment.value ? matchSegments(segments, parts, prefix, si + 1, pi + 1, params) : null;
+    }
+    if (part !== undefined && (!segment.pattern || segment.pattern.test(part))) {
+        const match = matchSegments(segments, parts, prefix, si + 1, pi + 1, { ...params, [segment.name]: part });
+        if (match) return match;
+    }
+    return segment.optional ? matchSegments(segments, parts, prefix, si + 1, pi, params) : null;
+}
+
+function matchRoute(routePath: string, currentPath: string, prefix = false): UltraRouteMatch {
+    if (isWildcardPath(routePath)) {
+        return { params: {}, matched: true, isWildcard: true, rest: '' };
+    }
+
+    const pathParts = currentPath.split('/').filter(p => p);
+    const match = matchSegments(compileRoutePath(routePath), pathParts, prefix);
+
+    if (!match) {
         return { matched: false, params: {} };
     }
 
-    const params: Record<string, string> = {};
-    for (let i = 0; i < routeParts.length; i++) {
-        if (routeParts[i]!.startsWith(':')) {
-            params[routeParts[i]!.slice(1)] = pathParts[i]!;
-        } else if (routeParts[i] !== pathParts[i]) {
-            return { matched: false, params: {} };
+    const [params, consumed] = match;
+    return { params, matched: true, rest: pathParts.slice(consumed).join('/') };
+}
+
+// Segment ranks, higher is more specific. A missing segment ranks between required params and
+// optional ones, so `/a` beats `/a/:b?` and `/a/:b` beats `/a` for the paths they both match.
+const SEGMENT_RANK = { static: 6, constrained: 5, param: 4, missing: 3, optional: 2, splat: 1 };
+
+function rankSegment(segment: UltraRouteSegment | undefined): number {
+    if (!segment) return SEGMENT_RANK.missing;
+    if (segment.type === 'static') return SEGMENT_RANK.static;
+    if (segment.type === 'splat') return SEGMENT_RANK.splat;
+    if (segment.optional) return SEGMENT_RANK.optional;
+    return segment.pattern ? SEGMENT_RANK.constrained : SEGMENT_RANK.param;
+}
+
+function compareRouteSpecificity(a: UltraRoute, b: UltraRoute): number {
+    const aSegments = compileRoutePath(a.path);
+    const bSegments = compileRoutePath(b.path);
+    const length = Math.max(aSegments.length, bSegments.length);
+    for (let i = 0; i < length; i++) {
+        const diff = rankSegment(bSegments[i]) - rankSegment(aSegments[i]);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+const rankedRouteLists = new WeakMap<UltraRoute[], UltraRoute[]>();
+
+/**
+ * Returns `routes` ordered from most to least specific, keeping declaration order for ties.
+ */
+function rankRoutes(routes: UltraRoute[]): UltraRoute[] {
+    let ranked = rankedRouteLists.get(routes);
+    if (!ranked) {
+        ranked = [...routes].sort(compareRouteSpecificity);
+        rankedRouteLists.set(routes, ranked);
+    }
+    return ranked;
+}
+
+/**
+ * Normalizes a route path so that equivalent patterns compare equal, e.g. `/users/:id` and
+ * `/users/:userId`.
+ */
+function routePatternKey(routePath: string): string {
+    return '/' + compileRoutePath(routePath).map(segment => {
+        if (segment.type === 'static') return segment.value;
+        if (segment.type === 'splat') return '*';
+        return `:${segment.pattern ? `(${segment.pattern.source})` : ''}${segment.optional ? '?' : ''}`;
+    }).join('/');
+}
+
+/**
+ * Resolves the chain of routes matching `currentPath`, outermost first. Routes of each level are
+ * tried from most to least specific, regardless of declaration order. Routes with children match
+ * their path as a prefix and resolve the rest against their children; a parent matched exactly
+ * with no matching child resolves on its own (rendering its layout with an empty outlet).
+ * Wildcard routes are only used when no other route of the same level matches.
+ */
+function resolveRoutes(
+    routes: UltraRoute[],
+    currentPath: string,
+    parentParams: Record<string, string> = {},
+    parentPath = '/'
+): UltraMatchedRoute[] | null {
+    const parts = currentPath.split('/').filter(p => p);
+    const matchedPath = (consumed: number): string =>
+        `${parentPath}/${parts.slice(0, consumed).join('/')}`.replace(/\/+/g, '/').replace(/(.)\/$/, '$1');
+    for (const route of rankRoutes(routes)) {
+        if (isWildcardPath(route.path)) continue;
+        const hasChildren = !!route.children?.length;
+        const match = matchRoute(route.path, currentPath, hasChildren);
+        if (!match.matched) continue;
+        const params = { ...parentParams, ...match.params };
+        const rest = match.rest ?? '';
+        const pathname = matchedPath(parts.length - rest.split('/').filter(p => p).length);
+        if (!hasChildren) return [{ route, params, pathname }];
+        const childChain = resolveRoutes(route.children!, rest, params, pathname);
+        if (childChain) return [{ route, params, pathname }, ...childChain];
+        if (!rest) return [{ route, params, pathname }];
+    }
+    const wildcardRoute = routes.find(route => isWildcardPath(route.path));
+    return wildcardRoute
+        ? [{ route: wildcardRoute, params: { ...parentParams }, pathname: matchedPath(parts.length) }]
+        : null;
+}
+
+function collectRoutePaths(routes: UltraRoute[], parentPath = ''): string[] {
+    return routes.flatMap(route => {
+        if (isWildcardPath(route.path)) return [];
+        const fullPath = `${parentPath}/${route.path}`.replace(/\/+/g, '/').replace(/(.)\/$/, '$1');
+        return route.children?.length ? collectRoutePaths(route.children, fullPath) : [fullPath];
+    });
+}
+
+/**
+ * Runs navigation guards in order until one of them blocks or redirects. Stays synchronous until
+ * a guard returns a promise, so routers without async guards render synchronously.
+ */
+function runGuards(
+    guards: UltraNavigationGuard[],
+    to: UltraRouteLocation,
+    from: UltraRouteLocation | null,
+    index = 0
+): UltraGuardResult | Promise<UltraGuardResult> {
+    for (let i = index; i < guards.length; i++) {
+        const result = guards[i]!(to, from);
+        if (result instanceof Promise) {
+            return result.then(resolved => (resolved === undefined || resolved === true)
+                ? runGuards(guards, to, from, i + 1)
+                : resolved);
         }
+        if (result !== undefined && result !== true) return result;
+    }
+    return true;
+}
+
+function isUltraRoute(value: UltraRouterOptions | UltraRoute): value is UltraRoute {
+    return 'path' in value;
+}
+
+const MAX_REDIRECTS = 10;
+
+const lazyComponentLoads = new Map<RouteLazyFn, Promise<RouteComponentFn>>();
+const lazyComponents = new WeakMap<RouteLazyFn, RouteComponentFn>();
+
+/**
+ * Resolves (once) the component of a lazy route. Failed loads are not cached so they can be retried.
+ */
+function loadLazyComponent(lazy: RouteLazyFn): Promise<RouteComponentFn> {
+    let load = lazyComponentLoads.get(lazy);
+    if (!load) {
+        load = new Promise<Awaited<ReturnType<RouteLazyFn>>>(resolve => resolve(lazy())).then(module => {
+            const component = typeof module === 'function' ? module : module.default;
+            lazyComponents.set(lazy, component);
+            return component;
+        });
+        load.catch(() => lazyComponentLoads.delete(lazy));
+        lazyComponentLoads.set(lazy, load);
     }
+    return load;
+}
+
+// Routes of every mounted router, used to prefetch lazy components.
+const mountedRouteSets = new Set<UltraRoute[]>();
+
+/**
+ * Starts loading the lazy components of the routes that `href` resolves to in every mounted
+ * {@link UltraRouter}, so navigating there later doesn't wait for the module.
+ * @param href Path to prefetch.
+ */
+export function ultraPrefetch(href: string): void {
+    const { pathname } = parseHref(href, activeHistory.location.pathname);
+    mountedRouteSets.forEach(routes => {
+        resolveRoutes(routes, pathname)?.forEach(({ route }) => {
+            if (route.lazy) loadLazyComponent(route.lazy).catch(() => {});
+        });
+    });
+}
 
-    return { params, matched: true };
+interface UltraMountedRoute {
+    route: UltraRoute;
+    paramsKey: string;
+    /**
+     * Element the next level of the route chain is rendered into.
+     */
+    outlet: HTMLElement;
+    cleanup: UltraCleanupFunction | null;
+    /**
+     * True for a route's pending or error content, which is always replaced on the next render.
+     */
+    placeholder?: boolean;
 }
 
 /**
@@ -287,16 +1856,52 @@ function matchRoute(routePath: string, currentPath: string): UltraRouteMatch {
  * Each matched route's `component` function runs inside its own {@link ultraScope}, so any
  * `ultraState`/`ultraCompState` subscription made synchronously during construction is
  * automatically disposed on navigation away or when the router's `_cleanup` runs.
+ *
+ * Routes may declare `children` and a `layout` that receives the outlet element the matched
+ * child is rendered into. On navigation, layouts whose route and params are unchanged are kept
+ * (along with their state and scope); only the levels below them are torn down and re-rendered.
+ *
+ * Before rendering, the router follows the matched route's `redirect` and runs the global
+ * `beforeEach` guard (passed in an optional leading options object) followed by the `beforeEnter`
+ * guard of every route in the matched chain. A guard can allow the navigation, cancel it (the
+ * current route stays rendered and the URL is restored) or redirect it. While an async guard is
+ * pending the current route stays rendered; a newer navigation supersedes the pending one.
+ *
+ * Routes with a `loader` are rendered once it resolves, receiving its data as the component's
+ * (or layout's) last argument. Meanwhile the route's `pending` content (or the router's) is shown
+ * in its place, and the `error` content if the loader rejects. Navigating away aborts the signal
+ * passed to pending loaders and discards their results.
+ *
+ * Routes with `lazy` instead of `component` resolve their component module the first time they
+ * are matched (showing their `pending` content meanwhile) and reuse the cached module afterwards.
+ * The resolved component runs inside its own `ultraScope` like any other route component.
+ *
+ * The router reads and updates the location through a history backend: the browser's URL by
+ * default, the URL fragment with `mode: 'hash'`, or an in-memory stack with `mode: 'memory'` (or
+ * any `history` instance). While mounted, its history is the one used by {@link UltraLink},
+ * {@link ultraNavigate} and {@link ultraQueryParams}. With a `basePath`, routes and hrefs are
+ * written relative to it.
  * @param routes
  * @returns
  */
-
+export function UltraRouter(options: UltraRouterOptions, ...routes: UltraRoute[]): UltraLightDiv;
+export function UltraRouter(...routes: UltraRoute[]): UltraLightDiv;
 export function UltraRouter(
-    ...routes: UltraRoute[]
+    ...args: (UltraRouterOptions | UltraRoute)[]
 ): UltraLightDiv {
+
+    const options: UltraRouterOptions = (args[0] && !isUltraRoute(args[0])) ? args[0] : {};
+    const routes = args.filter(isUltraRoute);
+    const history = withBasePath(
+        options.history ?? createHistory(options.mode ?? 'browser'),
+        options.basePath ?? '/'
+    );
+    const previousHistory = activeHistory;
+    setActiveHistory(history);
     
-    const paths = routes.map(r => r.path);
-    const duplicates = paths.filter((p, i) => paths.indexOf(p) !== i && p !== '/*');
+    const paths = collectRoutePaths(routes);
+    const patternKeys = paths.map(routePatternKey);
+    const duplicates = paths.filter((_, i) => patternKeys.indexOf(patternKeys[i]!) !== i);
     
     if (duplicates.length > 0) {
         console.warn('UltraRouter: Duplicate routes detected:', duplicates.join(', '));
@@ -305,125 +1910,503 @@ export function UltraRouter(
     const container = document.createElement('div') as UltraLightDiv;
     container.classList.add('browser-router');
 
-    let currentCleanup: UltraCleanupFunction | null = null;
+    const mounted: UltraMountedRoute[] = [];
+
+    // Scroll positions recorded per history entry when leaving it, restored when coming back.
+    // Memory histories don't own the page, so they leave the scroll alone; neither do routers
+    // other than the active one.
+    const managesScroll = history.mode !== 'memory';
+    const scrollPositions = new Map<string, UltraScrollPosition>();
+    let currentKey: string | null = null;
+    let pendingScroll: (() => void) | null = null;
+
+    const prepareScroll = (to: UltraRouteLocation, { key, hash }: UltraHistoryLocation): void => {
+        const initial = currentKey === null;
+        currentKey = key;
+        pendingScroll = null;
+        if (!managesScroll || history !== activeHistory) return;
+        const behavior = [...to.matched].reverse()
+            .find(({ route }) => route.scroll !== undefined)?.route.scroll ?? true;
+        if (behavior === false) return;
+        const saved = scrollPositions.get(key) ?? null;
+        const scroll = (): void => {
+            if (typeof behavior === 'function') {
+                const position = behavior(to, saved);
+                if (position) window.scrollTo({ ...position, behavior: 'instant' });
+                return;
+            }
+            if (saved) {
+                window.scrollTo({ ...saved, behavior: 'instant' });
+                return;
+            }
+            const target = findHashTarget(hash);
+            if (target) {
+                target.scrollIntoView();
+                return;
+            }
+            // Leave the initial page load where the browser put it.
+            if (!initial) window.scrollTo({ top: 0, behavior: 'instant' });
+        };
+        // On the initial render the router is not in the document yet.
+        pendingScroll = initial ? () => requestAnimationFrame(scroll) : scroll;
+    };
+
+    const flushScroll = (): void => {
+        const scroll = pendingScroll;
+        pendingScroll = null;
+        scroll?.();
+    };
 
-    const renderRoute = (): void => {
+    const saveScroll = (): void => {
+        if (managesScroll && currentKey !== null) {
+            scrollPositions.set(currentKey, { left: window.scrollX, top: window.scrollY });
+        }
+    };
 
-        if (currentCleanup) {
+    const unmountFrom = (depth: number): void => {
+        while (mounted.length > depth) {
+            const level = mounted.pop()!;
             try {
-                currentCleanup();
+                level.cleanup?.();
             } catch (error) {
                 console.error('Error while cleaning up previous route:', error);
             }
         }
+    };
 
-        const currentPath = window.location.pathname;
+    const targetAt = (depth: number): HTMLElement =>
+        depth === 0 ? container : mounted[depth - 1]!.outlet;
+
+    // Number of leading levels of `chain` that are already mounted and can be kept as they are.
+    const keptDepth = (chain: UltraMatchedRoute[]): number => {
+        let depth = 0;
+        while (
+            depth < mounted.length
+            && depth < chain.length - 1
+            && !mounted[depth]!.placeholder
+            && mounted[depth]!.route === chain[depth]!.route
+            && mounted[depth]!.paramsKey === JSON.stringify(chain[depth]!.params)
+        ) {
+            depth++;
+        }
+        return depth;
+    };
 
-        let targetComponent: HTMLElement | Node | null = null;
-        let scopeDispose: UltraCleanupFunction | null = null;
+    const mountRenderable = (
+        render: () => UltraRenderableElement,
+        target: HTMLElement
+    ): UltraCleanupFunction => {
+        const [component, scopeDispose] = ultraScope(render);
+        const targetComponent = component ? parseRenderable(component) : null;
+        if (targetComponent) {
+            target.appendChild(targetComponent);
+        }
+        const nodeCleanup = (targetComponent as UltraLightElement | null)?._cleanup;
+        return () => {
+            nodeCleanup?.();
+            scopeDispose();
+        };
+    };
 
-        for (const route of routes) {
-            const match = matchRoute(route.path, currentPath);
-            if (match.matched && !match.isWildcard) {
-                const routeParams = match.params;
-                const [component, dispose] = ultraScope(() => route.component(routeParams));
-                targetComponent = parseHTMLString(component);
-                scopeDispose = dispose;
-                break;
+    const mountRoute = (
+        { route, params, pathname }: UltraMatchedRoute,
+        target: HTMLElement,
+        data: unknown
+    ): UltraMountedRoute => {
+        let outlet: HTMLElement = target;
+        let render: (() => UltraRenderableElement) | null = null;
+        if (route.children?.length) {
+            const layout: RouteLayoutFn | undefined = route.layout;
+            if (layout) {
+                const layoutOutlet = document.createElement('div') as UltraLightDiv;
+                layoutOutlet.classList.add('ultra-outlet');
+                outlet = layoutOutlet;
+                render = () => layout(layoutOutlet, params, data);
             }
+        } else if (route.component || route.lazy) {
+            const component = route.component ?? lazyComponents.get(route.lazy!);
+            if (component) render = () => component(params, data);
+        } else {
+            console.warn(`UltraRouter: route "${route.path}" has neither a component nor children`);
+        }
+
+        return {
+            route,
+            paramsKey: JSON.stringify(params),
+            outlet,
+            cleanup: render ? mountRenderable(() => withRoutePath(pathname, render), target) : null
+        };
+    };
+
+    const mountPlaceholder = (
+        route: UltraRoute,
+        render: (() => UltraRenderableElement) | undefined,
+        depth: number
+    ): void => {
+        unmountFrom(depth);
+        const target = targetAt(depth);
+        target.replaceChildren();
+        mounted.push({
+            route,
+            paramsKey: '',
+            outlet: target,
+            cleanup: render ? mountRenderable(render, target) : null,
+            placeholder: true
+        });
+    };
+
+    const renderRoute = (chain: UltraMatchedRoute[], data: Map<UltraRoute, unknown>): void => {
+
+        // Keep the outer levels whose route and params are unchanged; the last level always re-renders.
+        const depth = keptDepth(chain);
+
+        unmountFrom(depth);
+
+        let target = targetAt(depth);
+        target.replaceChildren();
+
+        for (let i = depth; i < chain.length; i++) {
+            const level = mountRoute(chain[i]!, target, data.get(chain[i]!.route));
+            mounted.push(level);
+            target = level.outlet;
+        }
+
+        flushScroll();
+    };
+
+    // A component or layout that throws while rendering shows its route's `error` content. The
+    // levels above it are already mounted, so it is the level at `mounted.length`.
+    const showRenderError = (chain: UltraMatchedRoute[], error: unknown): void => {
+        const depth = Math.min(mounted.length, chain.length - 1);
+        const route = chain[depth]?.route;
+        const renderError = route?.error ?? options.error;
+        if (!renderError) {
+            console.error('UltraRouter: route render error:', error);
+        }
+        if (!route) return;
+        try {
+            mountPlaceholder(route, renderError && (() => renderError(error)), depth);
+        } catch (placeholderError) {
+            console.error('UltraRouter: error while rendering the error content:', placeholderError);
+        }
+        flushScroll();
+    };
+
+    let activeLoad: AbortController | null = null;
+
+    const loadAndRenderRoute = (chain: UltraMatchedRoute[], query: Record<string, string>): void => {
+
+        activeLoad?.abort();
+        activeLoad = null;
+
+        const depth = keptDepth(chain);
+        const loading = chain.slice(depth).filter(({ route }) =>
+            route.loader || (route.lazy && !route.component && !lazyComponents.has(route.lazy)));
+
+        if (loading.length === 0) {
+            renderRoute(chain, new Map());
+            return;
         }
 
-        if (!targetComponent) {
-            const wildcardRoute = routes.find(route => matchRoute(route.path, currentPath).isWildcard);
-            if (wildcardRoute) {
-                const [component, dispose] = ultraScope(() => wildcardRoute.component());
-                targetComponent = parseHTMLString(component);
-                scopeDispose = dispose;
+        const controller = new AbortController();
+        activeLoad = controller;
+
+        let failedRoute: UltraRoute | null = null;
+        const loads = loading.map(async ({ route, params }): Promise<[UltraRoute, unknown]> => {
+            try {
+                const [data] = await Promise.all([
+                    route.loader?.(params, query, controller.signal),
+                    route.lazy && !route.component ? loadLazyComponent(route.lazy) : null
+                ]);
+                return [route, data];
+            } catch (error) {
+                failedRoute ??= route;
+                throw error;
+            }
+        });
+
+        const pendingRoute = loading[0]!.route;
+        mountPlaceholder(pendingRoute, pendingRoute.pending ?? options.pending, depth);
+
+        Promise.all(loads).then(entries => {
+            if (controller.signal.aborted) return;
+            activeLoad = null;
+            try {
+                renderRoute(chain, new Map(entries));
+            } catch (error) {
+                showRenderError(chain, error);
+            }
+        }, (error: unknown) => {
+            if (controller.signal.aborted) return;
+            activeLoad = null;
+            const route = failedRoute ?? pendingRoute;
+            const renderError = route.error ?? options.error;
+            if (!renderError) {
+                console.error('UltraRouter: route loader error:', error);
             }
+            mountPlaceholder(route, renderError && (() => renderError(error)), depth);
+            flushScroll();
+        });
+    };
+
+    let current: UltraRouteLocation | null = null;
+    let currentHref: string | null = null;
+    let currentIndex = history.location.index;
+    let navigationId = 0;
+
+    // Redirects and cancellations rewrite the URL through the history, which notifies every
+    // listener; this router resolves those itself and must not treat them as new navigations.
+    let rewriting = false;
+    const rewriteLocation = (href: string, state = history.location.state): void => {
+        rewriting = true;
+        try {
+            history.replace(href, state);
+        } finally {
+            rewriting = false;
         }
+    };
 
-        container.innerHTML = '';
+    // Index a cancelled move is being undone to, and index a confirmed one is being replayed to:
+    // the history notifies once the move completes, possibly asynchronously.
+    let undoingTo: number | null = null;
+    let replayingTo: number | null = null;
+
+    // Cancels the navigation to the current location. Moves through the history (Back/Forward, or
+    // a push) are undone with `go`, so that no entry is overwritten; replacements are rewritten.
+    const restoreLocation = (): void => {
+        const delta = history.location.index - currentIndex;
+        if (delta === 0) {
+            if (currentHref !== null) rewriteLocation(currentHref);
+            return;
+        }
+        undoingTo = currentIndex;
+        history.go(-delta);
+    };
 
-        if (targetComponent) {
-            container.appendChild(targetComponent);
+    const resolveNavigation = (redirects = 0): void => {
+
+        const id = ++navigationId;
+        const location = history.location;
+        const pathname = location.pathname;
+        const chain = resolveRoutes(routes, pathname) ?? [];
+        const to: UltraRouteLocation = {
+            pathname,
+            params: chain[chain.length - 1]?.params ?? {},
+            query: readQuery(location.search),
+            state: location.state,
+            matched: chain
+        };
+
+        const redirectTo = (href: string): void => {
+            if (redirects >= MAX_REDIRECTS) {
+                console.error(`UltraRouter: too many redirects while navigating to "${pathname}"`);
+                return;
+            }
+            rewriteLocation(href);
+            resolveNavigation(redirects + 1);
+        };
+
+        const settle = (result: UltraGuardResult): void => {
+            if (id !== navigationId) return;
+            if (result === false) {
+                if (currentHref !== null) {
+                    restoreLocation();
+                }
+                return;
+            }
+            if (typeof result === 'string') {
+                redirectTo(result);
+                return;
+            }
+            current = to;
+            currentHref = formatLocation(history.location);
+            currentIndex = history.location.index;
+            prepareScroll(to, history.location);
+            if (history === activeHistory) publishRoute(to, history.location);
+            try {
+                loadAndRenderRoute(chain, to.query);
+            } catch (error) {
+                showRenderError(chain, error);
+            }
+        };
+
+        const redirect = chain[chain.length - 1]?.route.redirect;
+        if (redirect) {
+            redirectTo(redirect);
+            return;
         }
 
-        const nodeCleanup = (targetComponent as UltraLightElement | null)?._cleanup;
+        const guards = [options.beforeEach, ...chain.map(({ route }) => route.beforeEnter)]
+            .filter((guard): guard is UltraNavigationGuard => !!guard);
 
-        if (nodeCleanup || scopeDispose) {
-            currentCleanup = () => {
-                nodeCleanup?.();
-                scopeDispose?.();
-            };
+        const fail = (error: unknown): void => {
+            console.error('UltraRouter: navigation guard error:', error);
+            settle(false);
+        };
+
+        let result: ReturnType<typeof runGuards>;
+        try {
+            result = runGuards(guards, to, current);
+        } catch (error) {
+            fail(error);
+            return;
+        }
+        if (result instanceof Promise) {
+            result.then(settle, fail);
+        } else {
+            settle(result);
         }
     };
 
-    renderRoute();
+    resolveNavigation();
+
+    const handler = (): void => {
+        if (rewriting) return;
+        const { index, state } = history.location;
+        if (undoingTo !== null && index === undoingTo) {
+            undoingTo = null;
+            return;
+        }
+        const replayed = replayingTo !== null && index === replayingTo;
+        replayingTo = null;
+        if (updatingQuery) {
+            if (current) current = { ...current, query: readQuery(history.location.search) };
+            currentHref = formatLocation(history.location);
+            currentIndex = index;
+            return;
+        }
+        if (history === activeHistory && !allowedNavigation && !replayed && currentHref !== null && blockers.size > 0) {
+            const to = formatLocation(history.location);
+            const delta = index - currentIndex;
+            const result = checkBlockers({ action: 'pop', from: currentHref, to });
+            if (result !== true) {
+                restoreLocation();
+                if (result !== false) {
+                    void result.then(allowed => {
+                        if (!allowed) return;
+                        if (delta === 0) {
+                            rewriteLocation(to, state);
+                            saveScroll();
+                            resolveNavigation();
+                            return;
+                        }
+                        replayingTo = currentIndex + delta;
+                        history.go(delta);
+                    });
+                }
+                return;
+            }
+        }
+        saveScroll();
+        resolveNavigation();
+    };
+    const unlisten = history.listen(handler);
+    mountedRouteSets.add(routes);
 
-    const handler = (): void => renderRoute();
-    window.addEventListener('popstate', handler);
+    const previousScrollRestoration = managesScroll ? window.history.scrollRestoration : undefined;
+    if (managesScroll) {
+        window.history.scrollRestoration = 'manual';
+        scrollManagedHistories.add(history);
+    }
 
     const cleanup = (): void => {
-        window.removeEventListener('popstate', handler);
+        unlisten();
+        mountedRouteSets.delete(routes);
+        if (activeHistory === history) setActiveHistory(previousHistory);
+        if (managesScroll) {
+            scrollManagedHistories.delete(history);
+            if (previousScrollRestoration) window.history.scrollRestoration = previousScrollRestoration;
+        }
     };
 
     container._cleanup = () => {
         if (cleanup) cleanup();
-        if (currentCleanup) currentCleanup();
+        navigationId++;
+        activeLoad?.abort();
+        unmountFrom(0);
     };
 
     return container;
 }
 
 /**
- * Navigates to a new page within the UltraRouter context.
+ * Navigates to a new page within the UltraRouter context, through the history of the active router.
+ * `ultraNavigate.back()`, `ultraNavigate.forward()` and `ultraNavigate.go(n)` move through the
+ * history the same way, so blockers, guards and scroll restoration apply to them as well.
  * @param props
- * @param props.href The href of the link. It should be a relative path.
+ * @param props.href The href of the link. Paths not starting with `/` are resolved against the current route.
  * @param props.viewTransition When true, the navigation to the new page will happen using the viewtransition API.
+ * @param props.replace When true, the current history entry is replaced instead of adding a new one.
+ * @param props.state History state of the new entry, available as `ultraRoute().state`.
  */
 export function ultraNavigate({
     href,
-    viewTransition = false
+    viewTransition = false,
+    replace = false,
+    state
 }:{
     href: string;
     viewTransition?: boolean;
+    replace?: boolean;
+    state?: unknown;
 }): void {
+    if (!href) {
+        console.warn('ultraNavigate: a valid href is required');
+        return;
+    }
+    const to = resolveHref(href);
     function navigate() {
         try {
-            window.history.pushState({}, '', href);
-            window.scrollTo({ top: 0, behavior: 'instant' });
-            window.dispatchEvent(new PopStateEvent('popstate'));
+            pushAllowed(to, replace, state);
+            if (!replace) scrollToTopUnmanaged();
         } catch (error) {
             console.error('ultraNavigate: Navigation error:', error);
         }
     }
-    if (!href) {
-        console.warn('ultraNavigate: a valid href is required');
-        return;
-    }
-    if (!viewTransition) {
-        navigate();
-    }else{
-        if (!document.startViewTransition) {
+    unlessBlocked(to, () => {
+        if (!viewTransition) {
             navigate();
-            return;
+        }else{
+            if (!document.startViewTransition) {
+                navigate();
+                return;
+            }
+            document.startViewTransition(navigate);
         }
-        document.startViewTransition(navigate);
-    }
+    });
 }
 
+ultraNavigate.go = (delta: number): void => {
+    try {
+        activeHistory.go(delta);
+    } catch (error) {
+        console.error('ultraNavigate: Navigation error:', error);
+    }
+};
+
+ultraNavigate.back = (): void => ultraNavigate.go(-1);
+
+ultraNavigate.forward = (): void => ultraNavigate.go(1);
+
 /**
  * This functional component is used to create a link element that works within
- * the UltraRouter context.
+ * the UltraRouter context. While the link points to the route the router has rendered, it gets
+ * `aria-current="page"` and the optional `activeClassName`.
  */
 export function UltraLink({
     href,
     children,
     viewTransition = false,
-    className = []
+    className = [],
+    prefetch = false,
+    activeClassName,
+    exact = false,
+    replace = false,
+    state
 }: {
     /**
-     * The href of the link. It should be a relative path.
+     * The href of the link. Paths not starting with `/` are resolved against the route rendering
+     * the link, or against the current path for links rendered outside routes.
      */
     href: string;
     /**
@@ -439,17 +2422,46 @@ export function UltraLink({
      * Array of class names.
      */
     className?: string[];
+    /**
+     * When true, the lazy route components matching `href` start loading as soon as the link is
+     * hovered or focused. See {@link ultraPrefetch}.
+     */
+    prefetch?: boolean;
+    /**
+     * Class added while the link points to the current route.
+     */
+    activeClassName?: string;
+    /**
+     * When true, the link is active only on its exact path; otherwise also on any path below it.
+     */
+    exact?: boolean;
+    /**
+     * When true, clicking the link replaces the current history entry instead of adding a new one.
+     */
+    replace?: boolean;
+    /**
+     * History state of the entry the link navigates to, available as `ultraRoute().state`.
+     */
+    state?: unknown;
 }): UltraLightElement {
     if (!href) {
         console.warn('UltraLink: href is required');
     }
+    const routePath = renderingRoutePath;
+    let to = href;
     const link = document.createElement('a') as UltraLightAnchor;
-    link.href = href;
+    // The href depends on the current path (for relative hrefs outside routes) and on the active
+    // history (e.g. `#/about` in hash mode), which changes when a router is created after the link.
+    const updateHref = (): void => {
+        to = href ? resolveHref(href, routePath) : href;
+        link.href = activeHistory.createHref(to);
+    };
+    updateHref();
+    activeHistoryListeners.add(updateHref);
     function navigate() {
         try {
-            window.history.pushState({}, '', href);
-            window.scrollTo({ top: 0, behavior: 'instant' });
-            window.dispatchEvent(new PopStateEvent('popstate'));
+            pushAllowed(to, replace, state);
+            if (!replace) scrollToTopUnmanaged();
         } catch (error) {
             console.error('UltraLink: Navigation error:', error);
         }
@@ -459,18 +2471,26 @@ export function UltraLink({
     ): void {
         if (e.ctrlKey || e.metaKey) return;
         e.preventDefault();
-        if (window.location.pathname === href) return;
-        if (!viewTransition) {
-            navigate();
-        } else {
-            if (!document.startViewTransition) {
+        updateHref();
+        if (activeHistory.location.pathname === to) return;
+        unlessBlocked(to, () => {
+            if (!viewTransition) {
                 navigate();
-                return;
+            } else {
+                if (!document.startViewTransition) {
+                    navigate();
+                    return;
+                }
+                document.startViewTransition(navigate);
             }
-            document.startViewTransition(navigate);
-        }
+        });
     };
     link.addEventListener('click', clickHandler);
+    const prefetchHandler = (): void => ultraPrefetch(to);
+    if (prefetch) {
+        link.addEventListener('mouseenter', prefetchHandler);
+        link.addEventListener('focus', prefetchHandler);
+    }
     children.forEach(child => {
         if (!child) return;
         const childElement = parseHTMLString(child);
@@ -482,36 +2502,297 @@ export function UltraLink({
         if (!sel) return;
         link.classList.add(sel);
     });
+    const updateActive = (pathname: string): void => {
+        const linkPath = trimTrailingSlash(parseHref(to).pathname);
+        const currentPath = trimTrailingSlash(pathname);
+        const active = currentPath === linkPath
+            || (!exact && currentPath.startsWith(linkPath === '/' ? '/' : `${linkPath}/`));
+        if (activeClassName) link.classList.toggle(activeClassName, active);
+        if (active) {
+            link.setAttribute('aria-current', 'page');
+        } else {
+            link.removeAttribute('aria-current');
+        }
+    };
+    updateActive(activeHistory.location.pathname);
+    const unsubscribeActive = getRouteStore().pathname[2](pathname => {
+        updateHref();
+        updateActive(pathname);
+    });
     link._cleanup = () => {
+        unsubscribeActive();
+        activeHistoryListeners.delete(updateHref);
         link.removeEventListener('click', clickHandler);
+        link.removeEventListener('mouseenter', prefetchHandler);
+        link.removeEventListener('focus', prefetchHandler);
     };
     return link;
 }
 
 /**
  * This functional component is used to create a fragment of HTML components. Useful 
- * when needing to render multiple elements at once. It accepts null values for conditional rendering.
+ * when needing to render multiple elements at once. It accepts null values for conditional rendering,
+ * and markup with several roots, whose top-level nodes (text included) are all kept.
  * @param children 
  * @returns 
  */
 export function UltraFragment(
-    ...children: (string | HTMLElement | Node | null)[]
+    ...children: (UltraRenderableElement | Node | null)[]
 ): DocumentFragment {
 
     const fragment = document.createDocumentFragment();
 
     children.forEach(component => {
         if (!component) return;
-        const element = parseHTMLString(component);
-        if (element) {
-            fragment.appendChild(element);
-        }
+        fragment.appendChild(parseRenderable(component));
     });
 
     return fragment;
     
 }
 
+const HOLE_MARKER_REGEX = /__ultra_hole_(\d+)__/g;
+const HOLE_COMMENT_REGEX = /^ultra-hole-(\d+)$/;
+
+// Parsed templates of ultraHtml, keyed by the (per call site, immutable) strings array.
+const compiledTemplates = new WeakMap<TemplateStringsArray, HTMLTemplateElement>();
+
+// Where a template part leaves the markup: in content, inside a tag, or inside a quoted attribute value.
+interface TemplateScanState {
+    insideTag: boolean;
+    quote: '"' | "'" | null;
+}
+
+// Follows `<`, `>` and quotes through a template part, so a `>` inside a quoted attribute
+// value does not end the tag.
+function scanTemplatePart(part: string, state: TemplateScanState): void {
+    for (const char of part) {
+        if (state.quote) {
+            if (char === state.quote) state.quote = null;
+        } else if (!state.insideTag) {
+            if (char === '<') state.insideTag = true;
+        } else if (char === '"' || char === "'") {
+            state.quote = char;
+        } else if (char === '>') {
+            state.insideTag = false;
+        }
+    }
+}
+
+function compileTemplate(strings: TemplateStringsArray): HTMLTemplateElement {
+    let template = compiledTemplates.get(strings);
+    if (template) return template;
+    let html = '';
+    const state: TemplateScanState = { insideTag: false, quote: null };
+    strings.forEach((part, i) => {
+        html += part;
+        scanTemplatePart(part, state);
+        if (i === strings.length - 1) return;
+        // Inside a tag the hole is an attribute value; anywhere else it is content.
+        if (!state.insideTag) {
+            html += `<!--ultra-hole-${i}-->`;
+        } else if (!state.quote && /=\s*$/.test(html)) {
+            html += `"__ultra_hole_${i}__"`;
+        } else {
+            html += `__ultra_hole_${i}__`;
+        }
+    });
+    template = document.createElement('template');
+    setMarkup(template, html);
+    compiledTemplates.set(strings, template);
+    return template;
+}
+
+// Turns the value of a content hole into nodes, collecting the `_cleanup` of the nodes that have one.
+function holeToNodes(value: unknown, cleanups: UltraCleanupFunction[]): Node[] {
+    if (value === null || value === undefined || typeof value === 'boolean') return [];
+    if (Array.isArray(value)) return value.flatMap(item => holeToNodes(item, cleanups));
+    if (isTrustedHtml(value)) {
+        const template = document.createElement('template');
+        setMarkup(template, value.html);
+        return Array.from(template.content.childNodes);
+    }
+    if (typeof value === 'object' && 'nodeType' in value) {
+        const node = value as Node;
+        if (hasCleanup(node) && node._cleanup) cleanups.push(node._cleanup);
+        return node.nodeType === 11 /* DOCUMENT_FRAGMENT_NODE */ ? Array.from(node.childNodes) : [node];
+    }
+    return [document.createTextNode(String(value as string | number))];
+}
+
+function runCleanups(cleanups: UltraCleanupFunction[], errorMessage: string): void {
+    cleanups.forEach(cleanup => {
+        try {
+            void cleanup();
+        } catch (error) {
+            console.error(errorMessage, error);
+        }
+    });
+}
+
+function fillContentHole(anchor: Comment, value: unknown, cleanups: UltraCleanupFunction[]): void {
+    const isReactive = typeof value === 'function' || isReactiveField(value);
+    if (!isReactive) {
+        holeToNodes(value, cleanups).forEach(node => anchor.parentNode!.insertBefore(node, anchor));
+        anchor.remove();
+        return;
+    }
+    // Reactive holes keep the comment as an anchor and replace what they rendered before it.
+    let rendered: Node[] = [];
+    let renderedCleanups: UltraCleanupFunction[] = [];
+    const unbind = bindReactiveValue(value, next => {
+        rendered.forEach(node => node.parentNode?.removeChild(node));
+        runCleanups(renderedCleanups, 'ultraHtml: error while cleaning up a hole:');
+        renderedCleanups = [];
+        rendered = holeToNodes(next, renderedCleanups);
+        rendered.forEach(node => anchor.parentNode?.insertBefore(node, anchor));
+    }, 'ultraHtml: error while updating a hole:');
+    cleanups.push(() => {
+        unbind?.();
+        runCleanups(renderedCleanups, 'ultraHtml: error while cleaning up a hole:');
+    });
+}
+
+function fillAttributeHoles(element: Element, holes: unknown[], cleanups: UltraCleanupFunction[]): void {
+    Array.from(element.attributes).forEach(({ name, value }) => {
+        const indexes = Array.from(value.matchAll(HOLE_MARKER_REGEX), match => Number(match[1]));
+        if (name.startsWith('@')) {
+            element.removeAttribute(name);
+            const handler = holes[indexes[0]!] as EventListenerOrEventListenerObject | null | undefined;
+            if (indexes.length !== 1 || !handler) {
+                console.warn(`ultraHtml: "${name}" expects a single event handler`);
+                return;
+            }
+            const event = name.slice(1);
+            element.addEventListener(event, handler);
+            cleanups.push(() => element.removeEventListener(event, handler));
+            return;
+        }
+        if (indexes.length === 0) return;
+        // A value made of a single hole keeps the hole's type (e.g. booleans toggle the attribute);
+        // anything else is joined into a string, reading getters so that they are tracked.
+        const binding = value === `__ultra_hole_${indexes[0]}__`
+            ? holes[indexes[0]!]
+            : () => value.replace(HOLE_MARKER_REGEX, (_, index: string) => {
+                const hole = holes[Number(index)];
+                const resolved = typeof hole === 'function' ? (hole as () => unknown)() : hole;
+                return resolved === null || resolved === undefined ? '' : String(resolved as string);
+            });
+        const unbind = bindReactiveValue(
+            binding,
+            next => setAttributeValue(element, name, next),
+            `ultraHtml: error while updating attribute ${name}:`
+        );
+        if (unbind) cleanups.push(unbind);
+    });
+}
+
+function fillHoles(node: Node, holes: unknown[], cleanups: UltraCleanupFunction[]): void {
+    Array.from(node.childNodes).forEach(child => {
+        if (child.nodeType === 8 /* COMMENT_NODE */) {
+            const match = (child as Comment).data.match(HOLE_COMMENT_REGEX);
+            if (match) fillContentHole(child as Comment, holes[Number(match[1])], cleanups);
+            return;
+        }
+        if (child.nodeType === 1 /* ELEMENT_NODE */) {
+            fillAttributeHoles(child as Element, holes, cleanups);
+            fillHoles(child, holes, cleanups);
+        }
+    });
+}
+
+/**
+ * Tagged template that builds DOM from markup with interpolated values. The markup of each
+ * template literal is parsed once and cloned on every call; the holes are then filled in:
+ *
+ * - content holes accept nodes (their `_cleanup` is kept), fragments, arrays, trusted markup
+ *   (see {@link ultraTrusted}), or any other value, rendered as text (never as markup);
+ * - `@event=${handler}` adds an event listener;
+ * - `attr=${value}` sets an attribute, with the same rules as `UltraComponent`'s `attributes`;
+ * - getters and `{ get, subscribe }` fields in any content or attribute hole update it in place.
+ *
+ * Returns the element when the markup has a single root element, or a `DocumentFragment`
+ * otherwise. Either way, its `_cleanup` removes the listeners and subscriptions and calls the
+ * `_cleanup` of interpolated nodes, so the result can be passed as an `UltraComponent` child.
+ * @param strings
+ * @param holes
+ * @returns
+ */
+export function ultraHtml(strings: TemplateStringsArray, ...holes: unknown[]): UltraLightElement | UltraLightFragment {
+    const fragment = compileTemplate(strings).content.cloneNode(true) as UltraLightFragment;
+    const cleanups: UltraCleanupFunction[] = [];
+    fillHoles(fragment, holes, cleanups);
+
+    const roots = Array.from(fragment.childNodes)
+        .filter(node => node.nodeType !== 3 /* TEXT_NODE */ || node.textContent?.trim());
+    const result: UltraLightElement | UltraLightFragment = roots.length === 1 && roots[0]!.nodeType === 1
+        ? roots[0] as UltraLightElement
+        : fragment;
+    result._cleanup = () => runCleanups(cleanups, 'ultraHtml: error during cleanup:');
+    return result;
+}
+
+function isReactiveField<T>(value: UltraReactiveValue<T>): value is Pick<IUltraCompStateStateful<T>, 'get' | 'subscribe'> {
+    return typeof value === 'object' && value !== null
+        && typeof (value as Partial<IUltraCompStateStateful<T>>).get === 'function'
+        && typeof (value as Partial<IUltraCompStateStateful<T>>).subscribe === 'function';
+}
+
+/**
+ * Calls `apply` with the current value of `value` and, for getters and fields, again whenever it
+ * changes. Returns the function that stops the updates, also registered with the active scope.
+ */
+function bindReactiveValue<T>(
+    value: UltraReactiveValue<T>,
+    apply: (value: T) => void,
+    errorMessage: string
+): UltraCleanupFunction | null {
+    const safeApply = (next: T): void => {
+        try {
+            apply(next);
+        } catch (error) {
+            console.error(errorMessage, error);
+        }
+    };
+    if (isReactiveField(value)) {
+        safeApply(value.get());
+        return value.subscribe(() => safeApply(value.get()));
+    }
+    if (typeof value !== 'function') {
+        safeApply(value);
+        return null;
+    }
+    const getter = value as () => T;
+    const dependencies = new Map<UltraTrackedSource, () => void>();
+    let disposed = false;
+    const run = (): void => {
+        if (disposed) return;
+        try {
+            const [next, sources] = withTracking(getter);
+            syncDependencies(dependencies, sources, run);
+            safeApply(next);
+        } catch (error) {
+            console.error(errorMessage, error);
+        }
+    };
+    run();
+    const dispose = (): void => {
+        disposed = true;
+        dependencies.forEach(unsubscribe => unsubscribe());
+        dependencies.clear();
+    };
+    registerInScope(dispose);
+    return dispose;
+}
+
+function setAttributeValue(node: Element, name: string, value: unknown): void {
+    if (value === false || value === null || value === undefined) {
+        node.removeAttribute(name);
+    } else {
+        node.setAttribute(name, value === true ? '' : String(value as string | number));
+    }
+}
+
 /**
  * This functional component is used to create a custom HTML element with event handlers, styles, children, triggers, and cleanup functions.
  * Only one parent component will be rendered per instance of this component.
@@ -524,6 +2805,7 @@ export function UltraComponent({
     attributes = {},
     styles = {},
     className = [],
+    text,
     children = [],
     trigger = [],
     onMount = [],
@@ -538,17 +2820,22 @@ export function UltraComponent({
      */
     eventHandler?: Partial<Record<keyof HTMLElementEventMap, EventListenerOrEventListenerObject>>;
     /** 
-     * Object containing the HTML attributes.
+     * Object containing the HTML attributes. Values may be reactive; `true` sets an empty
+     * attribute, and `false`, `null` or `undefined` remove it.
      */
-    attributes?: Partial<Record<keyof AllHTMLAttributes, string>>;
+    attributes?: Partial<Record<keyof AllHTMLAttributes, UltraReactiveValue<string | number | boolean | null | undefined>>>;
     /**
-     * Object containing the CSS styles.
+     * Object containing the CSS styles. Values may be reactive.
      */
-    styles?: Partial<CSSStyleDeclaration>;
+    styles?: Partial<Record<keyof CSSStyleDeclaration, UltraReactiveValue<string>>>;
     /** 
-     * Array of class names.
+     * Array of class names. Entries may be reactive and hold several space-separated classes.
      */
-    className?: string[];
+    className?: UltraReactiveValue<string | null | undefined>[];
+    /**
+     * Text appended to the node before its children, updated in place when reactive.
+     */
+    text?: UltraReactiveValue<string | number>;
     /**
      * Array of child components. It accepts null values for conditional rendering.
      */
@@ -600,41 +2887,57 @@ export function UltraComponent({
         }
     });
 
+    // Getters and fields passed as values keep the node in sync; their subscriptions are released
+    // with the rest of the component's cleanup.
+    const bind = <T>(value: UltraReactiveValue<T>, apply: (value: T) => void, errorMessage: string): void => {
+        const unbind = bindReactiveValue(value, apply, errorMessage);
+        if (unbind) cleanupFunctions.push(unbind);
+    };
+
     //add styles
 
-    Object.keys(styles).forEach(key => {
-        try {
-            ((node as HTMLElement).style as unknown as Record<string, string>)[key] = styles[key as keyof CSSStyleDeclaration] as string;
-        } catch (error) {
-            console.error(`Error al aplicar estilo ${key}:`, error);
-        }
+    (Object.keys(styles) as (keyof CSSStyleDeclaration)[]).forEach(key => {
+        bind(styles[key]!, value => {
+            ((node as HTMLElement).style as unknown as Record<string, string>)[key as string] = value;
+        }, `Error al aplicar estilo ${String(key)}:`);
     });
 
     //add attributes
 
     (Object.keys(attributes) as (keyof AllHTMLAttributes)[]).forEach(key => {
-        try {
-            (node as HTMLElement).setAttribute(key as string, attributes[key] as string);
-        } catch (error) {
-            console.error(`Error applying attribute ${String(key)}:`, error);
-        }
+        bind(attributes[key], value => setAttributeValue(node as HTMLElement, key as string, value),
+            `Error applying attribute ${String(key)}:`);
     });
 
     //add class names
 
     className.forEach(className => {
-        try {
-            if (className) node.classList.add(className);
-        } catch (error) {
-            console.error(`Error al aplicar clase ${className}:`, error);
-        }
+        let applied: string[] = [];
+        bind(className, value => {
+            const next = value ? String(value).split(/\s+/).filter(Boolean) : [];
+            applied.filter(name => !next.includes(name)).forEach(name => node.classList.remove(name));
+            next.forEach(name => node.classList.add(name));
+            applied = next;
+        }, 'Error al aplicar clase:');
     });
 
+    //add text
+
+    if (text !== undefined) {
+        const textNode = document.createTextNode('');
+        node.appendChild(textNode);
+        bind(text, value => {
+            textNode.data = String(value);
+        }, 'Error applying text:');
+    }
+
     //add children
     
+    // Markup children of SVG and MathML nodes are parsed in their namespace.
+    const childNamespace = namespaceOf(node);
     children.forEach(child => {
         if (!child) return;
-        const childElement = parseHTMLString(child);
+        const childElement = parseHTMLString(child, { namespace: childNamespace });
         if (childElement) {
             node.appendChild(childElement);
             if (hasCleanup(childElement)) {
@@ -942,6 +3245,367 @@ export function UltraActivity({
 
 }
 
+// Positions (in `sequence`) of one longest strictly increasing subsequence, ignoring negative
+// values. UltraFor keeps the nodes at those positions in place and moves the rest around them.
+function longestIncreasingSubsequence(sequence: number[]): Set<number> {
+    const tails: number[] = [];
+    const previous = new Array<number>(sequence.length).fill(-1);
+    sequence.forEach((value, i) => {
+        if (value < 0) return;
+        let low = 0;
+        let high = tails.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (sequence[tails[mid]!]! < value) low = mid + 1;
+            else high = mid;
+        }
+        if (low > 0) previous[i] = tails[low - 1]!;
+        tails[low] = i;
+    });
+    const result = new Set<number>();
+    let i = tails.length ? tails[tails.length - 1]! : -1;
+    while (i >= 0) {
+        result.add(i);
+        i = previous[i]!;
+    }
+    return result;
+}
+
+interface UltraRenderedBranch {
+    nodes: Node[];
+    dispose: () => void;
+}
+
+// Renders `render` inside its own ultraScope, without letting an enclosing tracker (e.g. UltraFor's
+// `each`) pick up the states it reads. Disposing runs the scope disposer and the nodes' `_cleanup`.
+function renderBranch(render: () => UltraRenderableElement | UltraLightElement | null): UltraRenderedBranch {
+    const [[rendered], disposeScope] = ultraScope(() => withTracking(render));
+    const element = rendered ? parseRenderable(rendered) : null;
+    const nodes = element?.nodeType === 11 /* DOCUMENT_FRAGMENT_NODE */
+        ? Array.from(element.childNodes)
+        : element ? [element] : [];
+    // An empty text node keeps the branch's position when it renders nothing.
+    if (nodes.length === 0) nodes.push(document.createTextNode(''));
+    // A fragment (e.g. from ultraHtml) may carry a cleanup of its own, lost once its nodes move.
+    const owners = element && element.nodeType === 11 && hasCleanup(element) ? [element, ...nodes] : nodes;
+    return {
+        nodes,
+        dispose: () => {
+            owners.forEach(node => {
+                if (!hasCleanup(node)) return;
+                try {
+                    void node._cleanup?.();
+                } catch (error) {
+                    console.error('Error while cleaning up rendered node:', error);
+                }
+            });
+            void disposeScope();
+        }
+    };
+}
+
+/**
+ * Renders a list, reconciling it by key whenever `each` changes: nodes of new keys are inserted,
+ * nodes of removed keys are removed and cleaned up, and the remaining ones are moved as little as
+ * possible, so they keep their focus, scroll position and state.
+ *
+ * `each` is an array, a getter, or a field with `get` and `subscribe` (e.g. from
+ * {@link ultraCompState} or {@link ultraRoute}); the `ultraState`/`ultraComputed` getters a getter
+ * reads are tracked like in {@link ultraEffect}. Each item is rendered once, inside its own {@link ultraScope},
+ * disposed (along with the rendered nodes' `_cleanup`) when its key leaves the list. `item` returns
+ * the value its key currently holds: read it in reactive bindings or effects to follow new values,
+ * e.g. refetched objects, without re-creating the nodes.
+ * @param {Object} props - Object containing the list, key and render functions, container and fallback.
+ * @returns
+ */
+export function UltraFor<T>({
+    each,
+    key,
+    render,
+    component,
+    fallback
+}: {
+    /**
+     * Items to render, a getter that returns them, or a field with `get` and `subscribe`.
+     */
+    each: UltraReactiveValue<readonly T[]>;
+    /**
+     * Returns the unique key of an item.
+     */
+    key: (item: T, index: number) => string | number;
+    /**
+     * Renders an item. `item` is a state getter returning the latest value at the item's key, and
+     * `index` returns the item's current position in the list.
+     */
+    render: (item: () => T, index: () => number) => UltraRenderableElement | UltraLightElement | null;
+    /**
+     * Element the items are rendered into. Default is a `div`.
+     */
+    component?: UltraRenderableElement;
+    /**
+     * Rendered while the list is empty.
+     */
+    fallback?: () => UltraRenderableElement | UltraLightElement | null;
+}): UltraLightElement {
+
+    // The default container is created directly, so that it is accepted in safe mode.
+    const container = ((component ? parseHTMLString(component) : null) ?? document.createElement('div')) as UltraLightElement;
+
+    interface UltraForEntry extends UltraRenderedBranch {
+        setItem: (item: T) => void;
+        index: number;
+    }
+
+    let entries = new Map<string | number, UltraForEntry>();
+    let fallbackBranch: UltraRenderedBranch | null = null;
+    let disposed = false;
+
+    const removeBranch = (branch: UltraRenderedBranch): void => {
+        branch.nodes.forEach(node => node.parentNode?.removeChild(node));
+        branch.dispose();
+    };
+
+    const reconcile = (items: readonly T[]): void => {
+        const previous = entries;
+        const previousOrder = new Map(Array.from(previous.keys()).map((k, i) => [k, i]));
+        const next = new Map<string | number, UltraForEntry>();
+
+        items.forEach((item, index) => {
+            const itemKey = key(item, index);
+            if (next.has(itemKey)) {
+                console.warn(`UltraFor: duplicate key "${String(itemKey)}"; the item was skipped`);
+                return;
+            }
+            const existing = previous.get(itemKey);
+            if (existing) {
+                existing.index = index;
+                existing.setItem(item);
+                next.set(itemKey, existing);
+                return;
+            }
+            const [getItem, setItem] = ultraState(item, { equals: Object.is });
+            const entry: UltraForEntry = { setItem, index, nodes: [], dispose: () => {} };
+            Object.assign(entry, renderBranch(() => render(getItem, () => entry.index)));
+            next.set(itemKey, entry);
+        });
+
+        previous.forEach((entry, itemKey) => {
+            if (!next.has(itemKey)) removeBranch(entry);
+        });
+
+        if (next.size === 0 && fallback && !fallbackBranch) {
+            fallbackBranch = renderBranch(fallback);
+            fallbackBranch.nodes.forEach(node => container.appendChild(node));
+        } else if (next.size > 0 && fallbackBranch) {
+            removeBranch(fallbackBranch);
+            fallbackBranch = null;
+        }
+
+        const ordered = Array.from(next.entries());
+        const kept = longestIncreasingSubsequence(ordered.map(([itemKey]) => previousOrder.get(itemKey) ?? -1));
+        let anchor: Node | null = null;
+        for (let i = ordered.length - 1; i >= 0; i--) {
+            const { nodes } = ordered[i]![1];
+            if (!kept.has(i)) {
+                nodes.forEach(node => container.insertBefore(node, anchor));
+            }
+            anchor = nodes[0]!;
+        }
+
+        entries = next;
+    };
+
+    const unbind = bindReactiveValue(each, items => {
+        if (!disposed) reconcile(items);
+    }, 'Error while updating UltraFor:');
+
+    const dispose = (): void => {
+        if (disposed) return;
+        disposed = true;
+        void unbind?.();
+        entries.forEach(removeBranch);
+        entries.clear();
+        if (fallbackBranch) removeBranch(fallbackBranch);
+        fallbackBranch = null;
+    };
+
+    registerInScope(dispose);
+    container._cleanup = dispose;
+
+    return container;
+}
+
+// Mounts one branch at a time into `container`, selected by `select` and re-selected whenever the
+// states it reads change. A hidden branch is disposed, unless it fits among the `keepAlive` most
+// recently hidden ones, which stay alive (detached) until shown again or evicted.
+function switchBranches<K>(
+    name: string,
+    container: UltraLightElement,
+    select: () => K,
+    branchFor: (key: K) => (() => UltraRenderableElement | UltraLightElement | null) | undefined,
+    keepAlive: number
+): void {
+    const cache = new Map<K, UltraRenderedBranch>();
+    let active: { key: K; branch: UltraRenderedBranch | null } | null = null;
+    const dependencies = new Map<UltraTrackedSource, () => void>();
+    let disposed = false;
+
+    const hideActive = (): void => {
+        if (!active?.branch) return;
+        const { key, branch } = active;
+        branch.nodes.forEach(node => node.parentNode?.removeChild(node));
+        if (keepAlive <= 0) {
+            branch.dispose();
+            return;
+        }
+        cache.set(key, branch);
+        while (cache.size > keepAlive) {
+            const [oldestKey, oldest] = cache.entries().next().value!;
+            cache.delete(oldestKey);
+            oldest.dispose();
+        }
+    };
+
+    const update = (): void => {
+        if (disposed) return;
+        try {
+            const [key, sources] = withTracking(select);
+            syncDependencies(dependencies, sources, update);
+            if (active && Object.is(active.key, key)) return;
+            // Take the branch out of the cache first, so hiding the active one can't evict it.
+            let branch = cache.get(key) ?? null;
+            cache.delete(key);
+            hideActive();
+            if (!branch) {
+                const render = branchFor(key);
+                branch = render ? renderBranch(render) : null;
+            }
+            branch?.nodes.forEach(node => container.appendChild(node));
+            active = { key, branch };
+        } catch (error) {
+            console.error(`Error while updating ${name}:`, error);
+        }
+    };
+
+    update();
+
+    const dispose = (): void => {
+        if (disposed) return;
+        disposed = true;
+        dependencies.forEach(unsubscribe => unsubscribe());
+        dependencies.clear();
+        if (active?.branch) {
+            active.branch.nodes.forEach(node => node.parentNode?.removeChild(node));
+            active.branch.dispose();
+        }
+        active = null;
+        cache.forEach(branch => branch.dispose());
+        cache.clear();
+    };
+
+    registerInScope(dispose);
+    container._cleanup = dispose;
+}
+
+/**
+ * Mounts `render`'s content while `when` returns true and `fallback`'s otherwise. Unlike
+ * {@link UltraActivity}, the hidden branch is removed from the DOM and disposed: its
+ * {@link ultraScope} and the `_cleanup` of its nodes run, releasing subscriptions and timers.
+ * With `keepAlive`, up to that many hidden branches are kept alive instead and reused as they were.
+ *
+ * The `ultraState`/`ultraComputed` getters read by `when` are tracked like in {@link ultraEffect}.
+ * @param {Object} props - Object containing the condition, the branches, keep-alive size and container.
+ * @returns
+ */
+export function UltraShow({
+    when,
+    render,
+    fallback,
+    keepAlive = 0,
+    component
+}: {
+    /**
+     * Returns whether `render`'s content should be mounted.
+     */
+    when: () => unknown;
+    /**
+     * Renders the content mounted while `when` returns true.
+     */
+    render: () => UltraRenderableElement | UltraLightElement | null;
+    /**
+     * Renders the content mounted while `when` returns false.
+     */
+    fallback?: () => UltraRenderableElement | UltraLightElement | null;
+    /**
+     * Number of hidden branches kept alive. Default is 0.
+     */
+    keepAlive?: number;
+    /**
+     * Element the branches are mounted into. Default is a `div`.
+     */
+    component?: UltraRenderableElement;
+}): UltraLightElement {
+    const container = ((component ? parseHTMLString(component) : null) ?? document.createElement('div')) as UltraLightElement;
+    switchBranches(
+        'UltraShow',
+        container,
+        () => Boolean(when()),
+        shown => shown ? render : fallback,
+        keepAlive
+    );
+    return container;
+}
+
+const SWITCH_FALLBACK = Symbol('UltraSwitch fallback');
+
+/**
+ * Mounts the case matching the value returned by `value`, or `fallback` when no case matches. The
+ * previous case is unmounted and disposed like in {@link UltraShow}, unless it is kept alive.
+ * @param {Object} props - Object containing the value, the cases, fallback, keep-alive size and container.
+ * @returns
+ */
+export function UltraSwitch<K extends string | number>({
+    value,
+    cases,
+    fallback,
+    keepAlive = 0,
+    component
+}: {
+    /**
+     * Returns the key of the case to mount.
+     */
+    value: () => K;
+    /**
+     * Renders the content of each case.
+     */
+    cases: Partial<Record<K, () => UltraRenderableElement | UltraLightElement | null>>;
+    /**
+     * Renders the content mounted when no case matches.
+     */
+    fallback?: () => UltraRenderableElement | UltraLightElement | null;
+    /**
+     * Number of hidden cases kept alive. Default is 0.
+     */
+    keepAlive?: number;
+    /**
+     * Element the cases are mounted into. Default is a `div`.
+     */
+    component?: UltraRenderableElement;
+}): UltraLightElement {
+    const container = ((component ? parseHTMLString(component) : null) ?? document.createElement('div')) as UltraLightElement;
+    switchBranches<K | typeof SWITCH_FALLBACK>(
+        'UltraSwitch',
+        container,
+        () => {
+            const key = value();
+            return Object.hasOwn(cases, key) ? key : SWITCH_FALLBACK;
+        },
+        key => key === SWITCH_FALLBACK ? fallback : cases[key],
+        keepAlive
+    );
+    return container;
+}
+
 const styleCache = new Map<string, Record<string, string>>();
 
 /**
@@ -1006,12 +3670,13 @@ export function ultraStyles(
  * Useful for managing complex states, global contexts, or nested states. Accepts functions as values.
  * Functions are called with the state object as the first argument.
  * @param initialComp Initial composite state object.
- * @param freeze Optional parameter to freeze ALL the state objects. Default is false.
+ * @param options Either the legacy flag to freeze ALL the state objects, or an options object
+ * whose `freeze` and `equals` apply to every field.
  * @returns 
  */
 export function ultraCompState<T extends Record<string, unknown>>(
     initialComp: T,
-    freeze = false
+    options: boolean | UltraStateOptions<unknown> = false
 ): UltraCompStateResult<T> {
     if (typeof initialComp !== 'object' || initialComp === null) {
         throw new Error('ultraCompState: initial value cannot be a primitive or null.');
@@ -1023,7 +3688,7 @@ export function ultraCompState<T extends Record<string, unknown>>(
             comp[key as string] = (...args: unknown[]) => fn(comp, ...args);
             return;
         }
-        const [getValue, setValue, subscribeToValue] = ultraState(initialComp[key], freeze);
+        const [getValue, setValue, subscribeToValue] = ultraState<unknown>(initialComp[key], options);
         comp[key as string] = {
             get: getValue,
             set: setValue,
@@ -1134,7 +3799,7 @@ export function ultraQuery() {
 /**
  * Utility function to create a portal element outside of the application flow.
  * @param app A selector that identifies the application element.
- * @param portal A component to be ported to the application.
+ * @param portal A component to be ported to the application. Markup may have several roots.
  */
 export function ultraPortal(
     app: string | HTMLElement,
@@ -1146,8 +3811,8 @@ export function ultraPortal(
         throw new Error('UltraPortal: No application found with selector:');
     }
 
-    const $portalElement = parseHTMLString(portal);
-    if (!$portalElement) {
+    const $portalElement = parseRenderable(portal);
+    if (!($portalElement.nodeType === 11 ? ($portalElement as DocumentFragment).firstElementChild : $portalElement)) {
         throw new Error('UltraPortal: Invalid portal element');
     }
 